@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "sync_states" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "resource" TEXT NOT NULL,
+    "lastUpdatedAt" TIMESTAMP(3),
+    "lastSyncedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sync_states_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sync_states_tenantId_resource_key" ON "sync_states"("tenantId", "resource");
+
+-- AddForeignKey
+ALTER TABLE "sync_states" ADD CONSTRAINT "sync_states_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
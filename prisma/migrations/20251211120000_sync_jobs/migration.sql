@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "sync_jobs" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "resource" TEXT NOT NULL,
+    "trigger" TEXT NOT NULL,
+    "full" BOOLEAN NOT NULL DEFAULT false,
+    "status" TEXT NOT NULL DEFAULT 'queued',
+    "result" TEXT,
+    "error" TEXT,
+    "startedAt" TIMESTAMP(3),
+    "finishedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "sync_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "sync_jobs_tenantId_idx" ON "sync_jobs"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "sync_jobs_status_idx" ON "sync_jobs"("status");
+
+-- CreateIndex
+CREATE INDEX "sync_jobs_createdAt_idx" ON "sync_jobs"("createdAt");
+
+-- AddForeignKey
+ALTER TABLE "sync_jobs" ADD CONSTRAINT "sync_jobs_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "tenants" ADD COLUMN     "webhookSecret" TEXT,
+ADD COLUMN     "webhookSecretPrevious" TEXT;
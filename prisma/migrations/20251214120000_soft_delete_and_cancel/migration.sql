@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "customers" ADD COLUMN     "deletedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "cancelReason" TEXT,
+ADD COLUMN     "cancelledAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "products" ADD COLUMN     "deletedAt" TIMESTAMP(3);
@@ -0,0 +1,61 @@
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN     "shopifyLineItemId" TEXT;
+
+-- CreateTable
+CREATE TABLE "refunds" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "orderId" TEXT NOT NULL,
+    "shopifyId" TEXT NOT NULL,
+    "amount" DECIMAL(10,2) NOT NULL,
+    "note" TEXT,
+    "refundedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "refunds_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "refund_line_items" (
+    "id" TEXT NOT NULL,
+    "refundId" TEXT NOT NULL,
+    "orderItemId" TEXT,
+    "shopifyLineItemId" TEXT,
+    "quantity" INTEGER NOT NULL,
+    "subtotal" DECIMAL(10,2) NOT NULL,
+    "totalTax" DECIMAL(10,2),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "refund_line_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "refunds_tenantId_idx" ON "refunds"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "refunds_orderId_idx" ON "refunds"("orderId");
+
+-- CreateIndex
+CREATE INDEX "refunds_refundedAt_idx" ON "refunds"("refundedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "refunds_tenantId_shopifyId_key" ON "refunds"("tenantId", "shopifyId");
+
+-- CreateIndex
+CREATE INDEX "refund_line_items_refundId_idx" ON "refund_line_items"("refundId");
+
+-- CreateIndex
+CREATE INDEX "refund_line_items_orderItemId_idx" ON "refund_line_items"("orderItemId");
+
+-- AddForeignKey
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refunds" ADD CONSTRAINT "refunds_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refund_line_items" ADD CONSTRAINT "refund_line_items_refundId_fkey" FOREIGN KEY ("refundId") REFERENCES "refunds"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "refund_line_items" ADD CONSTRAINT "refund_line_items_orderItemId_fkey" FOREIGN KEY ("orderItemId") REFERENCES "order_items"("id") ON DELETE SET NULL ON UPDATE CASCADE;
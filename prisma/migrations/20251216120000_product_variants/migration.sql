@@ -0,0 +1,51 @@
+-- AlterTable
+ALTER TABLE "order_items" ADD COLUMN     "shopifyVariantId" TEXT,
+ADD COLUMN     "variantId" TEXT;
+
+-- CreateTable
+CREATE TABLE "product_variants" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "productId" TEXT NOT NULL,
+    "shopifyId" TEXT NOT NULL,
+    "title" TEXT,
+    "sku" TEXT,
+    "option1" TEXT,
+    "option2" TEXT,
+    "option3" TEXT,
+    "position" INTEGER,
+    "price" DECIMAL(10,2) NOT NULL,
+    "compareAtPrice" DECIMAL(10,2),
+    "inventoryQuantity" INTEGER DEFAULT 0,
+    "inventoryItemId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "shopifyCreatedAt" TIMESTAMP(3),
+    "shopifyUpdatedAt" TIMESTAMP(3),
+
+    CONSTRAINT "product_variants_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "product_variants_tenantId_idx" ON "product_variants"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "product_variants_productId_idx" ON "product_variants"("productId");
+
+-- CreateIndex
+CREATE INDEX "product_variants_inventoryItemId_idx" ON "product_variants"("inventoryItemId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "product_variants_tenantId_shopifyId_key" ON "product_variants"("tenantId", "shopifyId");
+
+-- CreateIndex
+CREATE INDEX "order_items_variantId_idx" ON "order_items"("variantId");
+
+-- AddForeignKey
+ALTER TABLE "product_variants" ADD CONSTRAINT "product_variants_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "product_variants" ADD CONSTRAINT "product_variants_productId_fkey" FOREIGN KEY ("productId") REFERENCES "products"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "order_items" ADD CONSTRAINT "order_items_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "product_variants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,59 @@
+-- AlterTable
+ALTER TABLE "tenants" ADD COLUMN     "lowStockThreshold" INTEGER NOT NULL DEFAULT 5;
+
+-- CreateTable
+CREATE TABLE "locations" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "shopifyId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "active" BOOLEAN NOT NULL DEFAULT true,
+    "city" TEXT,
+    "countryCode" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "locations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "inventory_levels" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "variantId" TEXT,
+    "inventoryItemId" TEXT NOT NULL,
+    "available" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "shopifyUpdatedAt" TIMESTAMP(3),
+
+    CONSTRAINT "inventory_levels_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "locations_tenantId_idx" ON "locations"("tenantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "locations_tenantId_shopifyId_key" ON "locations"("tenantId", "shopifyId");
+
+-- CreateIndex
+CREATE INDEX "inventory_levels_tenantId_idx" ON "inventory_levels"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "inventory_levels_variantId_idx" ON "inventory_levels"("variantId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "inventory_levels_locationId_inventoryItemId_key" ON "inventory_levels"("locationId", "inventoryItemId");
+
+-- AddForeignKey
+ALTER TABLE "locations" ADD CONSTRAINT "locations_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inventory_levels" ADD CONSTRAINT "inventory_levels_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inventory_levels" ADD CONSTRAINT "inventory_levels_locationId_fkey" FOREIGN KEY ("locationId") REFERENCES "locations"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "inventory_levels" ADD CONSTRAINT "inventory_levels_variantId_fkey" FOREIGN KEY ("variantId") REFERENCES "product_variants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
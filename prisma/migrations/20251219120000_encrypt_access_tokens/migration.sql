@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "tenants" ADD COLUMN     "accessTokenDataKey" TEXT,
+ADD COLUMN     "accessTokenKeyId" TEXT;
@@ -0,0 +1,59 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "anonymousId" TEXT,
+ADD COLUMN     "sessionId" TEXT,
+ADD COLUMN     "source" TEXT NOT NULL DEFAULT 'server';
+
+-- CreateTable
+CREATE TABLE "publishable_keys" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "allowedOrigins" TEXT NOT NULL,
+    "rateLimitPerMinute" INTEGER NOT NULL DEFAULT 600,
+    "lastUsedAt" TIMESTAMP(3),
+    "revokedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "publishable_keys_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "visitor_identities" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "anonymousId" TEXT NOT NULL,
+    "customerId" TEXT,
+    "shopifyCustomerId" TEXT,
+    "email" TEXT,
+    "identifiedAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "visitor_identities_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "events_tenantId_anonymousId_idx" ON "events"("tenantId", "anonymousId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "publishable_keys_key_key" ON "publishable_keys"("key");
+
+-- CreateIndex
+CREATE INDEX "publishable_keys_tenantId_idx" ON "publishable_keys"("tenantId");
+
+-- CreateIndex
+CREATE INDEX "visitor_identities_customerId_idx" ON "visitor_identities"("customerId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "visitor_identities_tenantId_anonymousId_key" ON "visitor_identities"("tenantId", "anonymousId");
+
+-- AddForeignKey
+ALTER TABLE "publishable_keys" ADD CONSTRAINT "publishable_keys_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "visitor_identities" ADD CONSTRAINT "visitor_identities_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "visitor_identities" ADD CONSTRAINT "visitor_identities_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "customers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
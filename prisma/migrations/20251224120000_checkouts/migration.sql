@@ -0,0 +1,51 @@
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "checkoutToken" TEXT;
+
+-- CreateTable
+CREATE TABLE "checkouts" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "shopifyId" TEXT NOT NULL,
+    "token" TEXT NOT NULL,
+    "email" TEXT,
+    "customerId" TEXT,
+    "orderId" TEXT,
+    "totalPrice" DECIMAL(10,2) NOT NULL,
+    "subtotalPrice" DECIMAL(10,2),
+    "currency" TEXT,
+    "abandonedCheckoutUrl" TEXT,
+    "completedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "shopifyCreatedAt" TIMESTAMP(3),
+    "shopifyUpdatedAt" TIMESTAMP(3),
+
+    CONSTRAINT "checkouts_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "orders_tenantId_checkoutToken_idx" ON "orders"("tenantId", "checkoutToken");
+
+-- CreateIndex
+CREATE INDEX "checkouts_tenantId_token_idx" ON "checkouts"("tenantId", "token");
+
+-- CreateIndex
+CREATE INDEX "checkouts_customerId_idx" ON "checkouts"("customerId");
+
+-- CreateIndex
+CREATE INDEX "checkouts_orderId_idx" ON "checkouts"("orderId");
+
+-- CreateIndex
+CREATE INDEX "checkouts_shopifyCreatedAt_idx" ON "checkouts"("shopifyCreatedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "checkouts_tenantId_shopifyId_key" ON "checkouts"("tenantId", "shopifyId");
+
+-- AddForeignKey
+ALTER TABLE "checkouts" ADD CONSTRAINT "checkouts_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "checkouts" ADD CONSTRAINT "checkouts_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "customers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "checkouts" ADD CONSTRAINT "checkouts_orderId_fkey" FOREIGN KEY ("orderId") REFERENCES "orders"("id") ON DELETE SET NULL ON UPDATE CASCADE;
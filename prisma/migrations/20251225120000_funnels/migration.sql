@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "funnels" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "steps" TEXT NOT NULL,
+    "conversionWindowHours" INTEGER NOT NULL DEFAULT 168,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "funnels_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "funnels_tenantId_idx" ON "funnels"("tenantId");
+
+-- AddForeignKey
+ALTER TABLE "funnels" ADD CONSTRAINT "funnels_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "customers" ADD COLUMN     "rfmFrequency" INTEGER,
+ADD COLUMN     "rfmMonetary" INTEGER,
+ADD COLUMN     "rfmRecency" INTEGER,
+ADD COLUMN     "rfmScoredAt" TIMESTAMP(3),
+ADD COLUMN     "rfmSegment" TEXT;
+
+-- CreateIndex
+CREATE INDEX "customers_tenantId_rfmSegment_idx" ON "customers"("tenantId", "rfmSegment");
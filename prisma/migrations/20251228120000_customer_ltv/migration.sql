@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "customers" ADD COLUMN     "churnProbability" DOUBLE PRECISION,
+ADD COLUMN     "expectedPurchases" DOUBLE PRECISION,
+ADD COLUMN     "ltvScoredAt" TIMESTAMP(3),
+ADD COLUMN     "predictedLtv" DECIMAL(10,2);
+
+-- CreateTable
+CREATE TABLE "ltv_models" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "r" DOUBLE PRECISION NOT NULL,
+    "alpha" DOUBLE PRECISION NOT NULL,
+    "a" DOUBLE PRECISION NOT NULL,
+    "b" DOUBLE PRECISION NOT NULL,
+    "p" DOUBLE PRECISION,
+    "q" DOUBLE PRECISION,
+    "v" DOUBLE PRECISION,
+    "customers" INTEGER NOT NULL,
+    "repeatCustomers" INTEGER NOT NULL,
+    "horizonDays" INTEGER NOT NULL,
+    "fittedAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ltv_models_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ltv_models_tenantId_key" ON "ltv_models"("tenantId");
+
+-- AddForeignKey
+ALTER TABLE "ltv_models" ADD CONSTRAINT "ltv_models_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
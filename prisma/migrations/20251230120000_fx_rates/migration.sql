@@ -0,0 +1,32 @@
+-- AlterTable
+ALTER TABLE "tenants" ADD COLUMN     "currency" TEXT;
+
+-- AlterTable
+ALTER TABLE "orders" ADD COLUMN     "presentmentCurrency" TEXT,
+ADD COLUMN     "presentmentSubtotalPrice" DECIMAL(10,2),
+ADD COLUMN     "presentmentTotalDiscounts" DECIMAL(10,2),
+ADD COLUMN     "presentmentTotalPrice" DECIMAL(10,2),
+ADD COLUMN     "presentmentTotalTax" DECIMAL(10,2);
+
+-- CreateTable
+CREATE TABLE "fx_rates" (
+    "id" TEXT NOT NULL,
+    "tenantId" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "baseCurrency" TEXT NOT NULL,
+    "quoteCurrency" TEXT NOT NULL,
+    "rate" DECIMAL(20,10) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "fx_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "fx_rates_tenantId_date_idx" ON "fx_rates"("tenantId", "date");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "fx_rates_tenantId_baseCurrency_quoteCurrency_date_key" ON "fx_rates"("tenantId", "baseCurrency", "quoteCurrency", "date");
+
+-- AddForeignKey
+ALTER TABLE "fx_rates" ADD CONSTRAINT "fx_rates_tenantId_fkey" FOREIGN KEY ("tenantId") REFERENCES "tenants"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- Fail all but the newest active job of any tenant that already has several
+UPDATE "sync_jobs" j
+SET "status" = 'failed', "error" = 'Superseded by a concurrent sync', "finishedAt" = CURRENT_TIMESTAMP
+WHERE j."status" IN ('queued', 'running')
+  AND EXISTS (
+    SELECT 1 FROM "sync_jobs" newer
+    WHERE newer."tenantId" = j."tenantId"
+      AND newer."status" IN ('queued', 'running')
+      AND (newer."createdAt", newer."id") > (j."createdAt", j."id")
+  );
+
+-- CreateIndex
+CREATE UNIQUE INDEX "sync_jobs_tenantId_active_key" ON "sync_jobs"("tenantId") WHERE "status" IN ('queued', 'running');
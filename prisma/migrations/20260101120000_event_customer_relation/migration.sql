@@ -0,0 +1,19 @@
+-- AlterTable
+ALTER TABLE "events" ADD COLUMN     "shopifyCustomerId" TEXT;
+
+-- Events recorded with anything but one of our customer ids keep it as a Shopify id,
+-- linked to the customer if they have already been synced
+UPDATE "events" e
+SET "shopifyCustomerId" = e."customerId",
+    "customerId" = (
+      SELECT c."id" FROM "customers" c
+      WHERE c."tenantId" = e."tenantId" AND c."shopifyId" = e."customerId"
+    )
+WHERE e."customerId" IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM "customers" own WHERE own."id" = e."customerId");
+
+-- CreateIndex
+CREATE INDEX "events_customerId_idx" ON "events"("customerId");
+
+-- AddForeignKey
+ALTER TABLE "events" ADD CONSTRAINT "events_customerId_fkey" FOREIGN KEY ("customerId") REFERENCES "customers"("id") ON DELETE SET NULL ON UPDATE CASCADE;
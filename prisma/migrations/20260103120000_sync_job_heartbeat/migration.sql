@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "sync_jobs" ADD COLUMN     "heartbeatAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- Existing jobs were last seen alive when they were last updated
+UPDATE "sync_jobs" SET "heartbeatAt" = "updatedAt";
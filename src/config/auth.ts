@@ -0,0 +1,23 @@
+import { SignOptions } from 'jsonwebtoken';
+
+// Placeholder secrets that have shipped in docs and old fallbacks; never valid
+const PLACEHOLDER_SECRETS = [
+  'secret-key',
+  'your-secret-key-change-in-production',
+  'your-random-secret-key-change-this',
+];
+
+// Shared JWT settings for signing and verifying every token this backend issues.
+// Read lazily so dotenv has loaded before first use.
+export function getJwtConfig() {
+  const secret = process.env.JWT_SECRET;
+  if (!secret || PLACEHOLDER_SECRETS.includes(secret) || secret.length < 32) {
+    throw new Error('JWT_SECRET must be set to a random string of at least 32 characters');
+  }
+
+  return {
+    secret,
+    accessTokenExpiresIn: (process.env.JWT_ACCESS_TOKEN_TTL || '15m') as SignOptions['expiresIn'],
+    refreshTokenTtlMs: (parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '') || 30) * 24 * 60 * 60 * 1000,
+  };
+}
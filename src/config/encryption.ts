@@ -0,0 +1,32 @@
+// Application keys that wrap the per-tenant data keys for Shopify access tokens.
+// TOKEN_ENCRYPTION_KEYS lists every key still needed for decryption as
+// comma-separated id:base64 pairs (each key 32 random bytes, e.g. `openssl rand -base64 32`).
+// New tokens are wrapped with TOKEN_ENCRYPTION_KEY_ID, or the first key listed.
+export interface TokenEncryptionKeys {
+  activeKeyId: string | null;
+  keys: Map<string, Buffer>;
+}
+
+export function getTokenEncryptionKeys(): TokenEncryptionKeys {
+  const keys = new Map<string, Buffer>();
+
+  for (const entry of (process.env.TOKEN_ENCRYPTION_KEYS || '').split(',')) {
+    if (!entry.trim()) continue;
+
+    const separator = entry.indexOf(':');
+    const id = entry.slice(0, separator).trim();
+    const key = Buffer.from(entry.slice(separator + 1).trim(), 'base64');
+
+    if (separator <= 0 || key.length !== 32) {
+      throw new Error(`TOKEN_ENCRYPTION_KEYS entry "${id || entry}" must be id:<32-byte base64 key>`);
+    }
+    keys.set(id, key);
+  }
+
+  const activeKeyId = process.env.TOKEN_ENCRYPTION_KEY_ID || keys.keys().next().value || null;
+  if (activeKeyId && !keys.has(activeKeyId)) {
+    throw new Error(`TOKEN_ENCRYPTION_KEY_ID "${activeKeyId}" is not in TOKEN_ENCRYPTION_KEYS`);
+  }
+
+  return { activeKeyId, keys };
+}
@@ -0,0 +1,58 @@
+// Shopify Admin API version used by both the REST and GraphQL clients
+export const SHOPIFY_API_VERSION = '2024-01';
+
+// Access scopes requested when a merchant installs the app
+export const DEFAULT_SHOPIFY_SCOPES = 'read_customers,read_products,read_orders,read_inventory,read_locations';
+
+// Webhook topics subscribed to on install; each has a handler in webhook.routes.ts
+export const SHOPIFY_WEBHOOK_TOPICS = [
+  'orders/create',
+  'orders/updated',
+  'orders/paid',
+  'orders/cancelled',
+  'refunds/create',
+  'customers/create',
+  'customers/update',
+  'customers/delete',
+  'products/create',
+  'products/update',
+  'products/delete',
+  'inventory_levels/update',
+  'locations/create',
+  'locations/update',
+  'checkouts/create',
+  'checkouts/update',
+  'shop/update',
+];
+
+// Base URL of a shop. SHOPIFY_ADMIN_API_BASE_URL points every shop at one host
+// instead (e.g. http://localhost:4010), for running against a fake Shopify.
+export function getShopifyShopUrl(shopDomain: string): string {
+  const base = process.env.SHOPIFY_ADMIN_API_BASE_URL || `https://${shopDomain}`;
+  return base.replace(/\/$/, '');
+}
+
+// Base URL of a shop's Admin API
+export function getShopifyAdminUrl(shopDomain: string): string {
+  return `${getShopifyShopUrl(shopDomain)}/admin/api/${SHOPIFY_API_VERSION}`;
+}
+
+// Shopify app credentials, read lazily so dotenv has loaded before first use.
+// SHOPIFY_API_SECRET is the app's API secret key, which Shopify signs webhooks with.
+// SHOPIFY_API_SECRET_PREVIOUS stays accepted while a secret rotation rolls out.
+export function getShopifyApiSecrets(): string[] {
+  return [process.env.SHOPIFY_API_SECRET, process.env.SHOPIFY_API_SECRET_PREVIOUS].filter(
+    (secret): secret is string => !!secret
+  );
+}
+
+// OAuth settings for the install flow. SHOPIFY_APP_URL is this backend's public
+// URL, which Shopify redirects back to and delivers webhooks to.
+export function getShopifyOAuthConfig() {
+  return {
+    apiKey: process.env.SHOPIFY_API_KEY,
+    apiSecret: process.env.SHOPIFY_API_SECRET,
+    scopes: process.env.SHOPIFY_SCOPES || DEFAULT_SHOPIFY_SCOPES,
+    appUrl: process.env.SHOPIFY_APP_URL?.replace(/\/$/, ''),
+  };
+}
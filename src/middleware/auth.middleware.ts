@@ -1,9 +1,15 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
+import prisma from '../config/database';
+import { getJwtConfig } from '../config/auth';
+import { API_KEY_PREFIX, ApiKeyScope, authenticateApiKey } from '../services/api-key.service';
 
 export interface AuthRequest extends Request {
   userId?: string;
   tenantId?: string;
+  role?: Role;
+  apiKeyId?: string; // Set instead of userId when authenticated with an API key
+  scopes?: ApiKeyScope[];
 }
 
 export const authenticateToken = (
@@ -19,10 +25,34 @@ export const authenticateToken = (
     return;
   }
 
-  const jwtSecret = process.env.JWT_SECRET || 'your-secret-key-change-in-production';
-  
-  jwt.verify(token, jwtSecret, (err, decoded: any) => {
-    if (err) {
+  if (token.startsWith(API_KEY_PREFIX)) {
+    authenticateApiKey(token)
+      .then((apiKey) => {
+        if (!apiKey) {
+          res.status(403).json({ error: 'Invalid or revoked API key' });
+          return;
+        }
+
+        req.apiKeyId = apiKey.id;
+        req.tenantId = apiKey.tenantId;
+        req.scopes = JSON.parse(apiKey.scopes);
+        next();
+      })
+      .catch((error) => {
+        res.status(500).json({ error: 'Failed to verify API key', details: error.message });
+      });
+    return;
+  }
+
+  jwt.verify(token, getJwtConfig().secret, (err, decoded: any) => {
+    // 401 tells the client to use its refresh token
+    if (err instanceof jwt.TokenExpiredError) {
+      res.status(401).json({ error: 'Access token expired' });
+      return;
+    }
+
+    // Only access tokens authenticate requests, not install or other purpose tokens
+    if (err || decoded.type !== 'access') {
       res.status(403).json({ error: 'Invalid or expired token' });
       return;
     }
@@ -45,3 +75,56 @@ export const requireTenant = (
   next();
 };
 
+// Tenant roles, most privileged first
+export const ROLES = ['owner', 'admin', 'analyst', 'viewer'] as const;
+export type Role = (typeof ROLES)[number];
+
+// Whether a role grants at least the access of another
+export const hasRole = (role: string, minimum: Role): boolean => {
+  const rank = ROLES.indexOf(role as Role);
+  return rank !== -1 && rank <= ROLES.indexOf(minimum);
+};
+
+// Require the user to still belong to the token's tenant with at least the given role.
+// The role is read from the database, so role changes and removals apply immediately.
+// API keys have no role: they pass only if the route names a scope the key was granted.
+export const requireRole = (minimum: Role, scope?: ApiKeyScope) => {
+  return async (req: AuthRequest, res: Response, next: NextFunction): Promise<void> => {
+    if (req.apiKeyId) {
+      if (!scope || !req.scopes?.includes(scope)) {
+        res.status(403).json({ error: scope ? `API key lacks the ${scope} scope` : 'Not available to API keys' });
+        return;
+      }
+      next();
+      return;
+    }
+
+    if (!req.tenantId || !req.userId) {
+      res.status(403).json({ error: 'Tenant access required' });
+      return;
+    }
+
+    try {
+      const user = await prisma.user.findFirst({
+        where: { id: req.userId, tenantId: req.tenantId },
+        select: { role: true },
+      });
+
+      if (!user) {
+        res.status(403).json({ error: 'You are no longer a member of this tenant' });
+        return;
+      }
+
+      req.role = user.role as Role;
+
+      if (!hasRole(user.role, minimum)) {
+        res.status(403).json({ error: `This action requires the ${minimum} role or higher` });
+        return;
+      }
+
+      next();
+    } catch (error: any) {
+      res.status(500).json({ error: 'Failed to check permissions', details: error.message });
+    }
+  };
+};
@@ -0,0 +1,56 @@
+// Token buckets per key, refilled continuously at limitPerMinute / 60 per second.
+// Buckets live in this process only; behind several instances each enforces its own share.
+interface Bucket {
+  tokens: number;
+  refilledAt: number;
+}
+
+const buckets = new Map<string, Bucket>();
+
+// Buckets idle for this long are full again and can be dropped
+const IDLE_BUCKET_MS = 10 * 60 * 1000;
+let lastSweep = Date.now();
+
+// Take `cost` tokens from a key's bucket. When there aren't enough, nothing is
+// taken and retryAfterMs says how long until there will be.
+export function consumeRateLimit(
+  key: string,
+  limitPerMinute: number,
+  cost: number = 1
+): { allowed: boolean; remaining: number; retryAfterMs: number } {
+  const now = Date.now();
+  sweepIdleBuckets(now);
+
+  const perMs = limitPerMinute / 60000;
+  const bucket = buckets.get(key) || { tokens: limitPerMinute, refilledAt: now };
+  bucket.tokens = Math.min(limitPerMinute, bucket.tokens + (now - bucket.refilledAt) * perMs);
+  bucket.refilledAt = now;
+  buckets.set(key, bucket);
+
+  if (cost > limitPerMinute) {
+    return { allowed: false, remaining: Math.floor(bucket.tokens), retryAfterMs: 60000 };
+  }
+
+  if (bucket.tokens < cost) {
+    return {
+      allowed: false,
+      remaining: Math.floor(bucket.tokens),
+      retryAfterMs: Math.ceil((cost - bucket.tokens) / perMs),
+    };
+  }
+
+  bucket.tokens -= cost;
+  return { allowed: true, remaining: Math.floor(bucket.tokens), retryAfterMs: 0 };
+}
+
+function sweepIdleBuckets(now: number): void {
+  if (now - lastSweep < IDLE_BUCKET_MS) {
+    return;
+  }
+  lastSweep = now;
+  for (const [key, bucket] of buckets) {
+    if (now - bucket.refilledAt > IDLE_BUCKET_MS) {
+      buckets.delete(key);
+    }
+  }
+}
@@ -1,12 +1,220 @@
 import express from 'express';
+import { Prisma } from '@prisma/client';
+import { body, validationResult } from 'express-validator';
 import prisma from '../config/database';
-import { authenticateToken, requireTenant, AuthRequest } from '../middleware/auth.middleware';
+import { authenticateToken, requireTenant, requireRole, AuthRequest } from '../middleware/auth.middleware';
+import { FunnelService, serializeFunnel } from '../services/funnel.service';
+import {
+  CohortService,
+  CohortGranularity,
+  CohortMetric,
+  COHORT_GRANULARITIES,
+  COHORT_METRICS,
+} from '../services/cohort.service';
+import { RfmService, findRfmSegment } from '../services/rfm.service';
+import { LtvService } from '../services/ltv.service';
+import { CustomerSpendService } from '../services/customer-spend.service';
+import { BUCKET_UNITS, BucketUnit, DateBucketer, WEEKDAYS, Weekday, isValidTimezone } from '../services/date-buckets';
+import { SegmentService, SegmentFilters, serializeSegment, validateSegmentFilters } from '../services/segment.service';
+import { CurrencyConverter, FxService, MissingFxRateError, isCurrencyCode } from '../services/fx.service';
 
 const router = express.Router();
 
 // All routes require authentication and tenant
 router.use(authenticateToken);
 router.use(requireTenant);
+router.use(requireRole('viewer', 'analytics:read'));
+
+interface AnalyticsRequest extends AuthRequest {
+  customerSegment?: Prisma.CustomerWhereInput;
+}
+
+// ?segmentId=<saved segment> narrows customer and order metrics to the segment's members
+router.use(async (req: AnalyticsRequest, res, next) => {
+  if (!req.query.segmentId) {
+    return next();
+  }
+
+  try {
+    const segmentService = new SegmentService(req.tenantId!);
+    const segment = await segmentService.get(req.query.segmentId as string);
+
+    if (!segment) {
+      return res.status(404).json({ error: 'Segment not found' });
+    }
+
+    req.customerSegment = await segmentService.where(JSON.parse(segment.filters));
+    next();
+  } catch (error: any) {
+    console.error('Segment filter error:', error);
+    res.status(500).json({ error: 'Failed to apply segment', details: error.message });
+  }
+});
+
+// For endpoints that can't honour a query parameter (e.g. ?segmentId or ?currency on
+// figures aggregated in SQL): refuse it rather than silently answer without it
+function unsupported(param: string) {
+  return (req: AuthRequest, res: express.Response, next: express.NextFunction) => {
+    if (req.query[param]) {
+      return res.status(400).json({ error: `${param} is not supported by this endpoint` });
+    }
+    next();
+  };
+}
+
+// Soft-deleted customers/products and cancelled orders are left out of analytics
+// unless the caller opts in with ?includeDeleted=true / ?includeCancelled=true
+function includeDeleted(req: AuthRequest): boolean {
+  return req.query.includeDeleted === 'true';
+}
+
+// Base filter for products, and for customers before any segment is applied
+function activeScope(req: AuthRequest): any {
+  return includeDeleted(req) ? { tenantId: req.tenantId } : { tenantId: req.tenantId, deletedAt: null };
+}
+
+// Base filter for customers, narrowed to the requested segment if any
+function customerScope(req: AnalyticsRequest): any {
+  return req.customerSegment ? { ...activeScope(req), AND: [req.customerSegment] } : activeScope(req);
+}
+
+// Base filter for orders, narrowed to orders from the requested segment's customers if any
+function orderScope(req: AnalyticsRequest): any {
+  const scope: any =
+    req.query.includeCancelled === 'true'
+      ? { tenantId: req.tenantId }
+      : { tenantId: req.tenantId, cancelledAt: null };
+
+  if (req.customerSegment) {
+    scope.customer = req.customerSegment;
+  }
+  return scope;
+}
+
+// Base filter for refunds: only those against orders that are themselves counted
+function refundScope(req: AuthRequest): any {
+  return { tenantId: req.tenantId, order: orderScope(req) };
+}
+
+// The shop's IANA timezone, falling back to UTC
+async function shopTimezone(tenantId: string): Promise<string> {
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: tenantId },
+    select: { timezone: true },
+  });
+  return tenant && isValidTimezone(tenant.timezone) ? tenant.timezone : 'UTC';
+}
+
+// Date bucketing for trend endpoints, in the shop's timezone: ?groupBy=hour|day|week|month
+// and ?weekStart=sunday..saturday. A date-only ?startDate means the shop's local midnight and
+// a date-only ?endDate includes that whole local day; the range is zero-filled. endBefore is
+// exclusive. Sends a 400 and returns null if invalid.
+async function trendBuckets(
+  req: AuthRequest,
+  res: express.Response,
+  defaultUnit: BucketUnit = 'day'
+): Promise<{ bucketer: DateBucketer; startDate?: Date; endBefore?: Date } | null> {
+  const unit = (req.query.groupBy as BucketUnit) || defaultUnit;
+  const weekStartsOn = ((req.query.weekStart as string) || 'sunday').toLowerCase() as Weekday;
+
+  if (!BUCKET_UNITS.includes(unit)) {
+    res.status(400).json({ error: `groupBy must be one of: ${BUCKET_UNITS.join(', ')}` });
+    return null;
+  }
+  if (!WEEKDAYS.includes(weekStartsOn)) {
+    res.status(400).json({ error: `weekStart must be one of: ${WEEKDAYS.join(', ')}` });
+    return null;
+  }
+
+  const timezone = await shopTimezone(req.tenantId!);
+  const parser = new DateBucketer({ unit, timezone });
+  const startDate = req.query.startDate ? parser.parseDate(req.query.startDate as string) : undefined;
+  const endBefore = req.query.endDate ? parser.parseEndDate(req.query.endDate as string) : undefined;
+
+  const bucketer = new DateBucketer({
+    unit,
+    timezone,
+    weekStartsOn,
+    start: startDate,
+    end: endBefore ? new Date(endBefore.getTime() - 1) : startDate && new Date(),
+  });
+
+  return { bucketer, startDate, endBefore };
+}
+
+// Apply a trendBuckets() range to a date field of a where clause
+function applyTrendRange(where: any, field: string, startDate?: Date, endBefore?: Date): any {
+  if (startDate || endBefore) {
+    where[field] = {};
+    if (startDate) {
+      where[field].gte = startDate;
+    }
+    if (endBefore) {
+      where[field].lt = endBefore;
+    }
+  }
+  return where;
+}
+
+// ?currency=EUR converts amounts from each order's currency at the rate for the order's
+// date. Undefined when no currency was asked for; sends a 400 and returns null if invalid.
+async function currencyConverter(
+  req: AuthRequest,
+  res: express.Response
+): Promise<CurrencyConverter | undefined | null> {
+  if (!req.query.currency) {
+    return undefined;
+  }
+
+  const currency = (req.query.currency as string).toUpperCase();
+  if (!isCurrencyCode(currency)) {
+    res.status(400).json({ error: 'currency must be a three-letter currency code' });
+    return null;
+  }
+
+  const tenant = await prisma.tenant.findUnique({
+    where: { id: req.tenantId },
+    select: { timezone: true, currency: true },
+  });
+
+  return new FxService(req.tenantId!).converter(currency, {
+    timezone: tenant && isValidTimezone(tenant.timezone) ? tenant.timezone : 'UTC',
+    defaultCurrency: tenant?.currency || 'USD',
+  });
+}
+
+// An order's amount in the requested currency, or as stored when none was requested
+function orderAmount(
+  converter: CurrencyConverter | undefined,
+  amount: Prisma.Decimal | number,
+  order: { currency: string | null; shopifyCreatedAt: Date | null; createdAt: Date }
+): number {
+  return converter
+    ? converter.convert(amount, order.currency, order.shopifyCreatedAt ?? order.createdAt)
+    : Number(amount);
+}
+
+// Fields orderAmount() needs, for selects
+const ORDER_CURRENCY_FIELDS = { currency: true, shopifyCreatedAt: true, createdAt: true } as const;
+
+// A 422 listing the currencies and dates with no rate
+function missingRates(res: express.Response, error: MissingFxRateError) {
+  return res.status(422).json({ error: error.message, missing: error.missing.slice(0, 100) });
+}
+
+// Apply ?startDate/?endDate to a date field of a where clause
+function applyDateRange(where: any, field: string, startDate: unknown, endDate: unknown): any {
+  if (startDate || endDate) {
+    where[field] = {};
+    if (startDate) {
+      where[field].gte = new Date(startDate as string);
+    }
+    if (endDate) {
+      where[field].lte = new Date(endDate as string);
+    }
+  }
+  return where;
+}
 
 // Get dashboard overview metrics
 router.get('/overview', async (req: AuthRequest, res) => {
@@ -15,23 +223,17 @@ router.get('/overview', async (req: AuthRequest, res) => {
       return res.status(403).json({ error: 'Tenant access required' });
     }
 
-    const [totalCustomers, totalOrders, totalRevenue, totalProducts] = await Promise.all([
-      prisma.customer.count({ where: { tenantId: req.tenantId } }),
-      prisma.order.count({ where: { tenantId: req.tenantId } }),
-      prisma.order.aggregate({
-        where: { tenantId: req.tenantId },
-        _sum: { totalPrice: true },
-      }),
-      prisma.product.count({ where: { tenantId: req.tenantId } }),
-    ]);
+    const converter = await currencyConverter(req, res);
+    if (converter === null) return;
 
-    // Calculate additional metrics
-    const avgOrderValue = totalOrders > 0 
-      ? Number(totalRevenue._sum.totalPrice || 0) / totalOrders 
-      : 0;
+    const [totalCustomers, totalOrders, totalProducts] = await Promise.all([
+      prisma.customer.count({ where: customerScope(req) }),
+      prisma.order.count({ where: orderScope(req) }),
+      prisma.product.count({ where: activeScope(req) }),
+    ]);
 
     const recentOrders = await prisma.order.findMany({
-      where: { tenantId: req.tenantId },
+      where: orderScope(req),
       orderBy: { shopifyCreatedAt: 'desc' },
       take: 30,
       select: { totalPrice: true, shopifyCreatedAt: true },
@@ -42,43 +244,99 @@ router.get('/overview', async (req: AuthRequest, res) => {
     const sevenDaysAgo = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
     const fourteenDaysAgo = new Date(now.getTime() - 14 * 24 * 60 * 60 * 1000);
 
-    const [recentRevenue, previousRevenue] = await Promise.all([
-      prisma.order.aggregate({
-        where: {
-          tenantId: req.tenantId,
-          shopifyCreatedAt: { gte: sevenDaysAgo },
-        },
-        _sum: { totalPrice: true },
-      }),
-      prisma.order.aggregate({
-        where: {
-          tenantId: req.tenantId,
-          shopifyCreatedAt: { gte: fourteenDaysAgo, lt: sevenDaysAgo },
-        },
-        _sum: { totalPrice: true },
-      }),
-    ]);
+    let totalRevenue: Prisma.Decimal | number = 0;
+    let grossRevenue = 0;
+    let refundedRevenue = 0;
+    let recent = 0;
+    let previous = 0;
+
+    // Sums across currencies are meaningless, so converted totals add up order by order
+    if (converter) {
+      const [orders, refunds] = await Promise.all([
+        prisma.order.findMany({
+          where: orderScope(req),
+          select: { totalPrice: true, ...ORDER_CURRENCY_FIELDS },
+        }),
+        prisma.refund.findMany({
+          where: refundScope(req),
+          select: { amount: true, order: { select: ORDER_CURRENCY_FIELDS } },
+        }),
+      ]);
+
+      orders.forEach((order) => {
+        const amount = orderAmount(converter, order.totalPrice, order);
+        grossRevenue += amount;
+        if (order.shopifyCreatedAt && order.shopifyCreatedAt >= sevenDaysAgo) {
+          recent += amount;
+        } else if (order.shopifyCreatedAt && order.shopifyCreatedAt >= fourteenDaysAgo) {
+          previous += amount;
+        }
+      });
+      refundedRevenue = refunds.reduce((sum, refund) => sum + orderAmount(converter, refund.amount, refund.order), 0);
+
+      converter.assertComplete();
+      totalRevenue = grossRevenue;
+    } else {
+      const [revenue, refunded, recentRevenue, previousRevenue] = await Promise.all([
+        prisma.order.aggregate({
+          where: orderScope(req),
+          _sum: { totalPrice: true },
+        }),
+        prisma.refund.aggregate({
+          where: refundScope(req),
+          _sum: { amount: true },
+        }),
+        prisma.order.aggregate({
+          where: {
+            ...orderScope(req),
+            shopifyCreatedAt: { gte: sevenDaysAgo },
+          },
+          _sum: { totalPrice: true },
+        }),
+        prisma.order.aggregate({
+          where: {
+            ...orderScope(req),
+            shopifyCreatedAt: { gte: fourteenDaysAgo, lt: sevenDaysAgo },
+          },
+          _sum: { totalPrice: true },
+        }),
+      ]);
+
+      totalRevenue = revenue._sum.totalPrice || 0;
+      grossRevenue = Number(totalRevenue);
+      refundedRevenue = Number(refunded._sum.amount || 0);
+      recent = Number(recentRevenue._sum.totalPrice || 0);
+      previous = Number(previousRevenue._sum.totalPrice || 0);
+    }
 
-    const revenueGrowth = previousRevenue._sum.totalPrice && Number(previousRevenue._sum.totalPrice) > 0
-      ? ((Number(recentRevenue._sum.totalPrice || 0) - Number(previousRevenue._sum.totalPrice)) / Number(previousRevenue._sum.totalPrice)) * 100
-      : 0;
+    // Calculate additional metrics
+    const avgOrderValue = totalOrders > 0 ? grossRevenue / totalOrders : 0;
+
+    const revenueGrowth = previous > 0 ? ((recent - previous) / previous) * 100 : 0;
 
     res.json({
+      ...(converter && { currency: converter.currency }),
       totalCustomers,
       totalOrders,
-      totalRevenue: totalRevenue._sum.totalPrice || 0,
+      totalRevenue,
+      grossRevenue,
+      refundedRevenue,
+      netRevenue: grossRevenue - refundedRevenue,
       totalProducts,
       avgOrderValue,
       revenueGrowth: Number(revenueGrowth.toFixed(2)),
     });
   } catch (error: any) {
+    if (error instanceof MissingFxRateError) {
+      return missingRates(res, error);
+    }
     console.error('Overview error:', error);
     res.status(500).json({ error: 'Failed to get overview', details: error.message });
   }
 });
 
 // Get orders by date range
-router.get('/orders', async (req: AuthRequest, res) => {
+router.get('/orders', unsupported('currency'), async (req: AuthRequest, res) => {
   try {
     if (!req.tenantId) {
       return res.status(403).json({ error: 'Tenant access required' });
@@ -86,17 +344,7 @@ router.get('/orders', async (req: AuthRequest, res) => {
 
     const { startDate, endDate, limit = 100, offset = 0 } = req.query;
 
-    const where: any = { tenantId: req.tenantId };
-
-    if (startDate || endDate) {
-      where.shopifyCreatedAt = {};
-      if (startDate) {
-        where.shopifyCreatedAt.gte = new Date(startDate as string);
-      }
-      if (endDate) {
-        where.shopifyCreatedAt.lte = new Date(endDate as string);
-      }
-    }
+    const where: any = applyDateRange(orderScope(req), 'shopifyCreatedAt', startDate, endDate);
 
     const [orders, total] = await Promise.all([
       prisma.order.findMany({
@@ -147,88 +395,228 @@ router.get('/customers/top', async (req: AuthRequest, res) => {
       return res.status(403).json({ error: 'Tenant access required' });
     }
 
-    const limit = parseInt((req.query.limit as string) || '5');
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 5, 1), 100);
+
+    const converter = await currencyConverter(req, res);
+    if (converter === null) return;
+
+    const select = {
+      id: true,
+      email: true,
+      firstName: true,
+      lastName: true,
+      totalSpent: true,
+      ordersCount: true,
+      shopifyCreatedAt: true,
+    };
+
+    if (!converter) {
+      const topCustomers = await prisma.customer.findMany({
+        where: customerScope(req),
+        orderBy: { totalSpent: 'desc' },
+        take: limit,
+        select,
+      });
+
+      return res.json(topCustomers);
+    }
 
-    const topCustomers = await prisma.customer.findMany({
-      where: { tenantId: req.tenantId },
-      orderBy: { totalSpent: 'desc' },
-      take: limit,
-      select: {
-        id: true,
-        email: true,
-        firstName: true,
-        lastName: true,
-        totalSpent: true,
-        ordersCount: true,
-        shopifyCreatedAt: true,
-      },
+    // Shopify's totalSpent is in whatever the shop's currency was, so rank on converted
+    // order totals net of refunds instead
+    const top = await new CustomerSpendService(req.tenantId).topConverted(converter, {
+      timezone: await shopTimezone(req.tenantId),
+      limit,
+      scope: customerScope(req),
+      includeCancelled: req.query.includeCancelled === 'true',
     });
 
-    res.json(topCustomers);
+    const customers = await prisma.customer.findMany({
+      where: { id: { in: top.map(({ customerId }) => customerId) } },
+      select,
+    });
+
+    res.json(
+      top.map(({ customerId, spent }) => ({
+        ...customers.find((customer) => customer.id === customerId)!,
+        totalSpent: spent,
+        currency: converter.currency,
+      }))
+    );
   } catch (error: any) {
+    if (error instanceof MissingFxRateError) {
+      return missingRates(res, error);
+    }
     console.error('Top customers error:', error);
     res.status(500).json({ error: 'Failed to get top customers', details: error.message });
   }
 });
 
-// Get revenue trends (daily)
-router.get('/revenue/trends', async (req: AuthRequest, res) => {
+// Customer count and revenue share of each RFM segment
+router.get('/rfm/segments', unsupported('segmentId'), unsupported('currency'), async (req: AuthRequest, res) => {
   try {
     if (!req.tenantId) {
       return res.status(403).json({ error: 'Tenant access required' });
     }
 
-    const { startDate, endDate, groupBy = 'day' } = req.query;
+    const rfmService = new RfmService(req.tenantId);
+    const [segments, lastScored] = await Promise.all([
+      rfmService.summary(),
+      prisma.customer.aggregate({
+        where: { tenantId: req.tenantId },
+        _max: { rfmScoredAt: true },
+      }),
+    ]);
 
-    const where: any = { tenantId: req.tenantId };
+    res.json({
+      scoredAt: lastScored._max.rfmScoredAt,
+      segments,
+    });
+  } catch (error: any) {
+    console.error('RFM segments error:', error);
+    res.status(500).json({ error: 'Failed to get RFM segments', details: error.message });
+  }
+});
 
-    if (startDate || endDate) {
-      where.shopifyCreatedAt = {};
-      if (startDate) {
-        where.shopifyCreatedAt.gte = new Date(startDate as string);
-      }
-      if (endDate) {
-        where.shopifyCreatedAt.lte = new Date(endDate as string);
-      }
+// List the customers in an RFM segment, by slug (e.g. champions, at-risk)
+router.get('/rfm/segments/:segment/customers', async (req: AuthRequest, res) => {
+  try {
+    if (!req.tenantId) {
+      return res.status(403).json({ error: 'Tenant access required' });
     }
 
-    const orders = await prisma.order.findMany({
-      where,
-      select: {
-        totalPrice: true,
-        shopifyCreatedAt: true,
-      },
-      orderBy: { shopifyCreatedAt: 'asc' },
+    const segment = findRfmSegment(req.params.segment);
+    if (!segment) {
+      return res.status(404).json({ error: 'Unknown RFM segment' });
+    }
+
+    const { limit = 50, offset = 0 } = req.query;
+    const take = Math.min(parseInt(limit as string) || 50, 250);
+    const skip = parseInt(offset as string) || 0;
+    const where = { ...customerScope(req), rfmSegment: segment };
+
+    const [customers, total] = await Promise.all([
+      prisma.customer.findMany({
+        where,
+        orderBy: [{ rfmMonetary: 'desc' }, { rfmFrequency: 'desc' }, { rfmRecency: 'desc' }, { id: 'asc' }],
+        take,
+        skip,
+        select: {
+          id: true,
+          email: true,
+          firstName: true,
+          lastName: true,
+          totalSpent: true,
+          ordersCount: true,
+          rfmRecency: true,
+          rfmFrequency: true,
+          rfmMonetary: true,
+          rfmScoredAt: true,
+        },
+      }),
+      prisma.customer.count({ where }),
+    ]);
+
+    res.json({
+      segment,
+      customers,
+      total,
+      limit: take,
+      offset: skip,
     });
+  } catch (error: any) {
+    console.error('RFM segment customers error:', error);
+    res.status(500).json({ error: 'Failed to list segment customers', details: error.message });
+  }
+});
+
+// Recompute RFM scores now instead of waiting for the next sync
+router.post('/rfm/recompute', requireRole('admin'), unsupported('segmentId'), async (req: AuthRequest, res) => {
+  try {
+    if (!req.tenantId) {
+      return res.status(403).json({ error: 'Tenant access required' });
+    }
+
+    const scored = await new RfmService(req.tenantId).recompute();
+
+    res.json({ message: 'RFM scores recomputed', scored });
+  } catch (error: any) {
+    console.error('RFM recompute error:', error);
+    res.status(500).json({ error: 'Failed to recompute RFM scores', details: error.message });
+  }
+});
+
+// Get revenue trends (daily). Refunds are bucketed by when they happened,
+// not by when the refunded order was placed.
+router.get('/revenue/trends', async (req: AuthRequest, res) => {
+  try {
+    if (!req.tenantId) {
+      return res.status(403).json({ error: 'Tenant access required' });
+    }
+
+    const trend = await trendBuckets(req, res);
+    if (!trend) return;
+    const { bucketer, startDate, endBefore } = trend;
+
+    const converter = await currencyConverter(req, res);
+    if (converter === null) return;
+
+    const [orders, refunds] = await Promise.all([
+      prisma.order.findMany({
+        where: applyTrendRange(orderScope(req), 'shopifyCreatedAt', startDate, endBefore),
+        select: {
+          totalPrice: true,
+          ...ORDER_CURRENCY_FIELDS,
+        },
+        orderBy: { shopifyCreatedAt: 'asc' },
+      }),
+      prisma.refund.findMany({
+        where: applyTrendRange(refundScope(req), 'refundedAt', startDate, endBefore),
+        select: {
+          amount: true,
+          refundedAt: true,
+          order: { select: ORDER_CURRENCY_FIELDS },
+        },
+      }),
+    ]);
 
     // Group by day, week, or month
-    const grouped: Record<string, number> = {};
+    const grouped: Record<string, { gross: number; refunded: number }> = {};
 
     orders.forEach((order) => {
       if (!order.shopifyCreatedAt) return;
 
-      const date = new Date(order.shopifyCreatedAt);
-      let key: string;
-
-      if (groupBy === 'day') {
-        key = date.toISOString().split('T')[0];
-      } else if (groupBy === 'week') {
-        const weekStart = new Date(date);
-        weekStart.setDate(date.getDate() - date.getDay());
-        key = weekStart.toISOString().split('T')[0];
-      } else {
-        key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-      }
+      const key = bucketer.key(order.shopifyCreatedAt);
+      grouped[key] = grouped[key] || { gross: 0, refunded: 0 };
+      grouped[key].gross += orderAmount(converter, order.totalPrice, order);
+    });
 
-      grouped[key] = (grouped[key] || 0) + Number(order.totalPrice);
+    refunds.forEach((refund) => {
+      const key = bucketer.key(refund.refundedAt);
+      grouped[key] = grouped[key] || { gross: 0, refunded: 0 };
+      grouped[key].refunded += orderAmount(converter, refund.amount, refund.order);
     });
 
-    const trends = Object.entries(grouped)
-      .map(([date, revenue]) => ({ date, revenue }))
-      .sort((a, b) => a.date.localeCompare(b.date));
+    // revenue is kept as the gross figure for existing clients
+    const trends = bucketer
+      .fill(grouped, () => ({ gross: 0, refunded: 0 }))
+      .map(([date, data]) => ({
+        date,
+        revenue: data.gross,
+        grossRevenue: data.gross,
+        refunded: data.refunded,
+        netRevenue: data.gross - data.refunded,
+      }));
+
+    converter?.assertComplete();
 
     res.json(trends);
   } catch (error: any) {
+    if (error instanceof MissingFxRateError) {
+      return missingRates(res, error);
+    }
+    if (error instanceof RangeError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Revenue trends error:', error);
     res.status(500).json({ error: 'Failed to get revenue trends', details: error.message });
   }
@@ -243,7 +631,7 @@ router.get('/orders/status', async (req: AuthRequest, res) => {
 
     const statusCounts = await prisma.order.groupBy({
       by: ['financialStatus'],
-      where: { tenantId: req.tenantId },
+      where: orderScope(req),
       _count: { id: true },
     });
 
@@ -263,15 +651,20 @@ router.get('/products/top', async (req: AuthRequest, res) => {
 
     const limit = parseInt((req.query.limit as string) || '10');
 
+    const converter = await currencyConverter(req, res);
+    if (converter === null) return;
+
+    const itemWhere = {
+      order: orderScope(req),
+      productId: { not: null },
+      ...(!includeDeleted(req) && { product: { deletedAt: null } }),
+    };
+
     const topProducts = await prisma.orderItem.groupBy({
       by: ['productId'],
-      where: {
-        order: { tenantId: req.tenantId },
-        productId: { not: null },
-      },
+      where: itemWhere,
       _sum: {
         quantity: true,
-        price: true,
       },
       _count: { id: true },
       orderBy: { _sum: { quantity: 'desc' } },
@@ -282,11 +675,63 @@ router.get('/products/top', async (req: AuthRequest, res) => {
       .map((p) => p.productId)
       .filter((id): id is string => id !== null);
 
-    const products = await prisma.product.findMany({
-      where: { id: { in: productIds } },
+    const [products, lineItems] = await Promise.all([
+      prisma.product.findMany({
+        where: { id: { in: productIds } },
+        select: {
+          id: true,
+          title: true,
+          price: true,
+          inventoryQuantity: true,
+        },
+      }),
+      // Line items of the top products, for revenue (quantity * price) and the variant breakdown
+      prisma.orderItem.findMany({
+        where: { ...itemWhere, productId: { in: productIds } },
+        select: {
+          productId: true,
+          variantId: true,
+          quantity: true,
+          price: true,
+          order: { select: ORDER_CURRENCY_FIELDS },
+        },
+      }),
+    ]);
+
+    // Per product, then per variant (null for line items without a known variant)
+    type Sales = { quantity: number; revenue: number; count: number };
+    const revenueByProduct = new Map<string, number>();
+    const variantSales = new Map<string, Map<string | null, Sales>>();
+
+    lineItems.forEach((item) => {
+      const revenue = orderAmount(converter, item.quantity * Number(item.price), item.order);
+      revenueByProduct.set(item.productId!, (revenueByProduct.get(item.productId!) || 0) + revenue);
+
+      if (!variantSales.has(item.productId!)) {
+        variantSales.set(item.productId!, new Map());
+      }
+      const byVariant = variantSales.get(item.productId!)!;
+      const sales = byVariant.get(item.variantId) || { quantity: 0, revenue: 0, count: 0 };
+      sales.quantity += item.quantity;
+      sales.revenue += revenue;
+      sales.count += 1;
+      byVariant.set(item.variantId, sales);
+    });
+    converter?.assertComplete();
+
+    const variantIds = lineItems
+      .map((item) => item.variantId)
+      .filter((id): id is string => id !== null);
+
+    const variants = await prisma.productVariant.findMany({
+      where: { id: { in: variantIds } },
       select: {
         id: true,
         title: true,
+        sku: true,
+        option1: true,
+        option2: true,
+        option3: true,
         price: true,
         inventoryQuantity: true,
       },
@@ -295,17 +740,30 @@ router.get('/products/top', async (req: AuthRequest, res) => {
     const result = topProducts.map((item) => {
       const product = products.find((p) => p.id === item.productId);
       // Calculate total revenue: sum of (quantity * price) for each order item
-      const totalRevenue = Number(item._sum.price || 0);
+      const totalRevenue = revenueByProduct.get(item.productId!) || 0;
       return {
         product: product || { id: item.productId, title: 'Unknown Product' },
         totalQuantity: item._sum.quantity || 0,
         totalRevenue: totalRevenue,
+        ...(converter && { currency: converter.currency }),
         orderCount: item._count.id,
+        // Line items without a known variant are grouped under variant: null
+        variants: Array.from(variantSales.get(item.productId!) || [])
+          .sort(([, x], [, y]) => y.quantity - x.quantity)
+          .map(([variantId, sales]) => ({
+            variant: variantId ? variants.find((variant) => variant.id === variantId) || null : null,
+            totalQuantity: sales.quantity,
+            totalRevenue: sales.revenue,
+            orderCount: sales.count,
+          })),
       };
     }).sort((a, b) => b.totalRevenue - a.totalRevenue); // Sort by revenue descending
 
     res.json(result);
   } catch (error: any) {
+    if (error instanceof MissingFxRateError) {
+      return missingRates(res, error);
+    }
     console.error('Top products error:', error);
     res.status(500).json({ error: 'Failed to get top products', details: error.message });
   }
@@ -318,19 +776,11 @@ router.get('/customers/trends', async (req: AuthRequest, res) => {
       return res.status(403).json({ error: 'Tenant access required' });
     }
 
-    const { startDate, endDate, groupBy = 'day' } = req.query;
+    const trend = await trendBuckets(req, res);
+    if (!trend) return;
+    const { bucketer, startDate, endBefore } = trend;
 
-    const where: any = { tenantId: req.tenantId };
-
-    if (startDate || endDate) {
-      where.shopifyCreatedAt = {};
-      if (startDate) {
-        where.shopifyCreatedAt.gte = new Date(startDate as string);
-      }
-      if (endDate) {
-        where.shopifyCreatedAt.lte = new Date(endDate as string);
-      }
-    }
+    const where: any = applyTrendRange(customerScope(req), 'shopifyCreatedAt', startDate, endBefore);
 
     const customers = await prisma.customer.findMany({
       where,
@@ -345,125 +795,489 @@ router.get('/customers/trends', async (req: AuthRequest, res) => {
     customers.forEach((customer) => {
       if (!customer.shopifyCreatedAt) return;
 
-      const date = new Date(customer.shopifyCreatedAt);
-      let key: string;
-
-      if (groupBy === 'day') {
-        key = date.toISOString().split('T')[0];
-      } else if (groupBy === 'week') {
-        const weekStart = new Date(date);
-        weekStart.setDate(date.getDate() - date.getDay());
-        key = weekStart.toISOString().split('T')[0];
-      } else {
-        key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
-      }
-
+      const key = bucketer.key(customer.shopifyCreatedAt);
       grouped[key] = (grouped[key] || 0) + 1;
     });
 
-    const trends = Object.entries(grouped)
-      .map(([date, count]) => ({ date, count }))
-      .sort((a, b) => a.date.localeCompare(b.date));
+    const trends = bucketer.fill(grouped, () => 0).map(([date, count]) => ({ date, count }));
 
     res.json(trends);
   } catch (error: any) {
+    if (error instanceof RangeError) {
+      return res.status(400).json({ error: error.message });
+    }
     console.error('Customer trends error:', error);
     res.status(500).json({ error: 'Failed to get customer trends', details: error.message });
   }
 });
 
-// Get average order value trends
+// Get average order value trends, gross and net of refunds made in each period
 router.get('/aov/trends', async (req: AuthRequest, res) => {
   try {
     if (!req.tenantId) {
       return res.status(403).json({ error: 'Tenant access required' });
     }
 
-    const { startDate, endDate, groupBy = 'day' } = req.query;
+    const trend = await trendBuckets(req, res);
+    if (!trend) return;
+    const { bucketer, startDate, endBefore } = trend;
 
-    const where: any = { tenantId: req.tenantId };
+    const converter = await currencyConverter(req, res);
+    if (converter === null) return;
 
-    if (startDate || endDate) {
-      where.shopifyCreatedAt = {};
-      if (startDate) {
-        where.shopifyCreatedAt.gte = new Date(startDate as string);
+    const [orders, refunds] = await Promise.all([
+      prisma.order.findMany({
+        where: applyTrendRange(orderScope(req), 'shopifyCreatedAt', startDate, endBefore),
+        select: {
+          totalPrice: true,
+          ...ORDER_CURRENCY_FIELDS,
+        },
+        orderBy: { shopifyCreatedAt: 'asc' },
+      }),
+      prisma.refund.findMany({
+        where: applyTrendRange(refundScope(req), 'refundedAt', startDate, endBefore),
+        select: {
+          amount: true,
+          refundedAt: true,
+          order: { select: ORDER_CURRENCY_FIELDS },
+        },
+      }),
+    ]);
+
+    const grouped: Record<string, { total: number; refunded: number; count: number }> = {};
+
+    orders.forEach((order) => {
+      if (!order.shopifyCreatedAt) return;
+
+      const key = bucketer.key(order.shopifyCreatedAt);
+      if (!grouped[key]) {
+        grouped[key] = { total: 0, refunded: 0, count: 0 };
       }
-      if (endDate) {
-        where.shopifyCreatedAt.lte = new Date(endDate as string);
+      grouped[key].total += orderAmount(converter, order.totalPrice, order);
+      grouped[key].count += 1;
+    });
+
+    refunds.forEach((refund) => {
+      const key = bucketer.key(refund.refundedAt);
+      if (!grouped[key]) {
+        grouped[key] = { total: 0, refunded: 0, count: 0 };
       }
+      grouped[key].refunded += orderAmount(converter, refund.amount, refund.order);
+    });
+
+    const trends = bucketer
+      .fill(grouped, () => ({ total: 0, refunded: 0, count: 0 }))
+      .map(([date, data]) => ({
+        date,
+        aov: data.count > 0 ? data.total / data.count : 0,
+        refunded: data.refunded,
+        netAov: data.count > 0 ? (data.total - data.refunded) / data.count : 0,
+      }));
+
+    converter?.assertComplete();
+
+    res.json(trends);
+  } catch (error: any) {
+    if (error instanceof MissingFxRateError) {
+      return missingRates(res, error);
     }
+    if (error instanceof RangeError) {
+      return res.status(400).json({ error: error.message });
+    }
+    console.error('AOV trends error:', error);
+    res.status(500).json({ error: 'Failed to get AOV trends', details: error.message });
+  }
+});
 
-    const orders = await prisma.order.findMany({
-      where,
+// Get stock totals per location
+router.get('/inventory/locations', unsupported('segmentId'), async (req: AuthRequest, res) => {
+  try {
+    if (!req.tenantId) {
+      return res.status(403).json({ error: 'Tenant access required' });
+    }
+
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: req.tenantId },
+      select: { lowStockThreshold: true },
+    });
+    const threshold = tenant?.lowStockThreshold ?? 5;
+
+    const [locations, totals, lowStock] = await Promise.all([
+      prisma.location.findMany({
+        where: { tenantId: req.tenantId },
+        select: {
+          id: true,
+          name: true,
+          active: true,
+          city: true,
+          countryCode: true,
+        },
+        orderBy: { name: 'asc' },
+      }),
+      prisma.inventoryLevel.groupBy({
+        by: ['locationId'],
+        where: { tenantId: req.tenantId, available: { not: null } },
+        _sum: { available: true },
+        _count: { id: true },
+      }),
+      prisma.inventoryLevel.groupBy({
+        by: ['locationId'],
+        where: { tenantId: req.tenantId, available: { lte: threshold } },
+        _count: { id: true },
+      }),
+    ]);
+
+    res.json(
+      locations.map((location) => {
+        const total = totals.find((t) => t.locationId === location.id);
+        const low = lowStock.find((l) => l.locationId === location.id);
+        return {
+          location,
+          totalAvailable: total?._sum.available || 0,
+          trackedItems: total?._count.id || 0,
+          lowStockItems: low?._count.id || 0,
+        };
+      })
+    );
+  } catch (error: any) {
+    console.error('Inventory by location error:', error);
+    res.status(500).json({ error: 'Failed to get inventory by location', details: error.message });
+  }
+});
+
+// Get stock per variant with days of cover at the recent sales velocity
+router.get('/inventory/stock', async (req: AuthRequest, res) => {
+  try {
+    if (!req.tenantId) {
+      return res.status(403).json({ error: 'Tenant access required' });
+    }
+
+    const { locationId, limit = 100, offset = 0 } = req.query;
+    const velocityDays = Math.max(parseInt((req.query.velocityDays as string) || '30') || 30, 1);
+    const since = new Date(Date.now() - velocityDays * 24 * 60 * 60 * 1000);
+
+    const variants = await prisma.productVariant.findMany({
+      where: {
+        tenantId: req.tenantId,
+        ...(!includeDeleted(req) && { product: { deletedAt: null } }),
+      },
       select: {
-        totalPrice: true,
-        shopifyCreatedAt: true,
+        id: true,
+        title: true,
+        sku: true,
+        product: { select: { id: true, title: true } },
+        inventoryLevels: {
+          where: {
+            available: { not: null },
+            ...(locationId && { locationId: locationId as string }),
+          },
+          select: {
+            available: true,
+            location: { select: { id: true, name: true } },
+          },
+        },
       },
-      orderBy: { shopifyCreatedAt: 'asc' },
+      orderBy: [{ productId: 'asc' }, { position: 'asc' }],
+      take: parseInt(limit as string),
+      skip: parseInt(offset as string),
     });
 
-    const grouped: Record<string, { total: number; count: number }> = {};
+    const sales = await prisma.orderItem.groupBy({
+      by: ['variantId'],
+      where: {
+        variantId: { in: variants.map((v) => v.id) },
+        order: { ...orderScope(req), shopifyCreatedAt: { gte: since } },
+      },
+      _sum: { quantity: true },
+    });
 
-    orders.forEach((order) => {
-      if (!order.shopifyCreatedAt) return;
+    const result = variants.map((variant) => {
+      const available = variant.inventoryLevels.reduce((sum, level) => sum + (level.available || 0), 0);
+      const unitsSold = sales.find((s) => s.variantId === variant.id)?._sum.quantity || 0;
+      const dailyVelocity = unitsSold / velocityDays;
 
-      const date = new Date(order.shopifyCreatedAt);
-      let key: string;
-
-      if (groupBy === 'day') {
-        key = date.toISOString().split('T')[0];
-      } else if (groupBy === 'week') {
-        const weekStart = new Date(date);
-        weekStart.setDate(date.getDate() - date.getDay());
-        key = weekStart.toISOString().split('T')[0];
-      } else {
-        key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+      return {
+        variant: { id: variant.id, title: variant.title, sku: variant.sku },
+        product: variant.product,
+        available,
+        locations: variant.inventoryLevels.map((level) => ({
+          location: level.location,
+          available: level.available,
+        })),
+        unitsSold,
+        dailyVelocity: Number(dailyVelocity.toFixed(2)),
+        // null when nothing sold in the window: stock lasts indefinitely at that rate
+        daysOfCover: dailyVelocity > 0 ? Number((available / dailyVelocity).toFixed(1)) : null,
+      };
+    });
+
+    res.json({ velocityDays, items: result });
+  } catch (error: any) {
+    console.error('Inventory stock error:', error);
+    res.status(500).json({ error: 'Failed to get inventory stock', details: error.message });
+  }
+});
+
+// Get low-stock alerts: tracked levels at or below the tenant's threshold
+router.get('/inventory/low-stock', unsupported('segmentId'), async (req: AuthRequest, res) => {
+  try {
+    if (!req.tenantId) {
+      return res.status(403).json({ error: 'Tenant access required' });
+    }
+
+    const tenant = await prisma.tenant.findUnique({
+      where: { id: req.tenantId },
+      select: { lowStockThreshold: true },
+    });
+    const threshold = tenant?.lowStockThreshold ?? 5;
+
+    const levels = await prisma.inventoryLevel.findMany({
+      where: {
+        tenantId: req.tenantId,
+        available: { lte: threshold },
+        ...(!includeDeleted(req) && {
+          OR: [{ variantId: null }, { variant: { product: { deletedAt: null } } }],
+        }),
+      },
+      select: {
+        available: true,
+        inventoryItemId: true,
+        shopifyUpdatedAt: true,
+        location: { select: { id: true, name: true } },
+        variant: {
+          select: {
+            id: true,
+            title: true,
+            sku: true,
+            product: { select: { id: true, title: true } },
+          },
+        },
+      },
+      orderBy: { available: 'asc' },
+    });
+
+    res.json({ threshold, alerts: levels });
+  } catch (error: any) {
+    console.error('Low stock error:', error);
+    res.status(500).json({ error: 'Failed to get low-stock alerts', details: error.message });
+  }
+});
+
+// Abandoned checkout metrics. A checkout counts as abandoned once it has gone
+// ?abandonAfterMinutes (default 60) without completing; one completed after that
+// is recovered. Checkouts still inside the window are pending and left out of rates.
+router.get('/checkouts/abandonment', async (req: AnalyticsRequest, res) => {
+  try {
+    if (!req.tenantId) {
+      return res.status(403).json({ error: 'Tenant access required' });
+    }
+
+    const trend = await trendBuckets(req, res);
+    if (!trend) return;
+    const { bucketer, startDate, endBefore } = trend;
+    const abandonAfterMs = (parseInt(req.query.abandonAfterMinutes as string) || 60) * 60 * 1000;
+    const now = Date.now();
+
+    const converter = await currencyConverter(req, res);
+    if (converter === null) return;
+
+    const segment = req.customerSegment && { customer: req.customerSegment };
+
+    // Shopify only lists abandoned checkouts, so checkouts that went straight to an order
+    // are counted from orders carrying a checkout token we have no checkout for
+    const [checkouts, directOrders] = await Promise.all([
+      prisma.checkout.findMany({
+        where: applyTrendRange({ tenantId: req.tenantId, ...segment }, 'shopifyCreatedAt', startDate, endBefore),
+        select: {
+          totalPrice: true,
+          currency: true,
+          completedAt: true,
+          createdAt: true,
+          shopifyCreatedAt: true,
+          order: { select: { totalPrice: true, ...ORDER_CURRENCY_FIELDS } },
+        },
+      }),
+      prisma.order.findMany({
+        where: applyTrendRange(
+          { tenantId: req.tenantId, checkoutToken: { not: null }, checkouts: { none: {} }, ...segment },
+          'shopifyCreatedAt',
+          startDate,
+          endBefore
+        ),
+        select: { shopifyCreatedAt: true },
+      }),
+    ]);
+
+    type Bucket = {
+      checkouts: number;
+      completed: number;
+      abandoned: number;
+      recovered: number;
+      pending: number;
+      abandonedValue: number;
+      recoveredRevenue: number;
+    };
+    const emptyBucket = (): Bucket => ({
+      checkouts: 0,
+      completed: 0,
+      abandoned: 0,
+      recovered: 0,
+      pending: 0,
+      abandonedValue: 0,
+      recoveredRevenue: 0,
+    });
+
+    const summary = emptyBucket();
+    const grouped: Record<string, Bucket> = {};
+
+    checkouts.forEach((checkout) => {
+      if (!checkout.shopifyCreatedAt) return;
+
+      const key = bucketer.key(checkout.shopifyCreatedAt);
+      grouped[key] = grouped[key] || emptyBucket();
+
+      const abandonedAt = checkout.shopifyCreatedAt.getTime() + abandonAfterMs;
+      const completedAt = checkout.completedAt?.getTime();
+
+      for (const bucket of [summary, grouped[key]]) {
+        bucket.checkouts++;
+
+        if (completedAt !== undefined && completedAt <= abandonedAt) {
+          bucket.completed++;
+        } else if (completedAt !== undefined) {
+          // Abandoned, then completed later
+          bucket.abandoned++;
+          bucket.recovered++;
+          bucket.recoveredRevenue += checkout.order
+            ? orderAmount(converter, checkout.order.totalPrice, checkout.order)
+            : orderAmount(converter, checkout.totalPrice, checkout);
+        } else if (now > abandonedAt) {
+          bucket.abandoned++;
+          bucket.abandonedValue += orderAmount(converter, checkout.totalPrice, checkout);
+        } else {
+          bucket.pending++;
+        }
       }
+    });
 
-      if (!grouped[key]) {
-        grouped[key] = { total: 0, count: 0 };
+    directOrders.forEach((order) => {
+      if (!order.shopifyCreatedAt) return;
+
+      const key = bucketer.key(order.shopifyCreatedAt);
+      grouped[key] = grouped[key] || emptyBucket();
+
+      for (const bucket of [summary, grouped[key]]) {
+        bucket.checkouts++;
+        bucket.completed++;
       }
-      grouped[key].total += Number(order.totalPrice);
-      grouped[key].count += 1;
     });
+    converter?.assertComplete();
 
-    const trends = Object.entries(grouped)
-      .map(([date, data]) => ({ 
-        date, 
-        aov: data.count > 0 ? data.total / data.count : 0 
-      }))
-      .sort((a, b) => a.date.localeCompare(b.date));
+    // Abandonment rate counts recovered checkouts as abandoned
+    const withRates = (bucket: Bucket) => {
+      const decided = bucket.completed + bucket.abandoned;
+      return {
+        ...bucket,
+        abandonmentRate: decided > 0 ? Number(((bucket.abandoned / decided) * 100).toFixed(2)) : 0,
+        recoveryRate: bucket.abandoned > 0 ? Number(((bucket.recovered / bucket.abandoned) * 100).toFixed(2)) : 0,
+      };
+    };
 
-    res.json(trends);
+    const trends = bucketer.fill(grouped, emptyBucket).map(([date, bucket]) => ({ date, ...withRates(bucket) }));
+
+    res.json({
+      ...(converter && { currency: converter.currency }),
+      summary: withRates(summary),
+      trends,
+    });
   } catch (error: any) {
-    console.error('AOV trends error:', error);
-    res.status(500).json({ error: 'Failed to get AOV trends', details: error.message });
+    if (error instanceof RangeError) {
+      return res.status(400).json({ error: error.message });
+    }
+    if (error instanceof MissingFxRateError) {
+      return missingRates(res, error);
+    }
+    console.error('Checkout abandonment error:', error);
+    res.status(500).json({ error: 'Failed to get checkout abandonment metrics', details: error.message });
+  }
+});
+
+// Cohort retention: customers grouped by the month or week of their first order,
+// with their repeat purchases and revenue in each later period
+router.get('/cohorts', unsupported('segmentId'), unsupported('currency'), async (req: AuthRequest, res) => {
+  try {
+    if (!req.tenantId) {
+      return res.status(403).json({ error: 'Tenant access required' });
+    }
+
+    const { granularity = 'month', metric = 'retention', startDate, endDate, firstProductId } = req.query;
+
+    if (!COHORT_GRANULARITIES.includes(granularity as CohortGranularity)) {
+      return res.status(400).json({ error: `granularity must be one of: ${COHORT_GRANULARITIES.join(', ')}` });
+    }
+    if (!COHORT_METRICS.includes(metric as CohortMetric)) {
+      return res.status(400).json({ error: `metric must be one of: ${COHORT_METRICS.join(', ')}` });
+    }
+
+    const weekStartsOn = ((req.query.weekStart as string) || 'sunday').toLowerCase() as Weekday;
+    if (!WEEKDAYS.includes(weekStartsOn)) {
+      return res.status(400).json({ error: `weekStart must be one of: ${WEEKDAYS.join(', ')}` });
+    }
+
+    const periods = Math.min(Math.max(parseInt(req.query.periods as string) || 12, 1), 104);
+    const timezone = await shopTimezone(req.tenantId);
+    const parser = new DateBucketer({ unit: 'day', timezone });
+
+    const cohortService = new CohortService(req.tenantId);
+    const cohorts = await cohortService.retention({
+      granularity: granularity as CohortGranularity,
+      metric: metric as CohortMetric,
+      timezone,
+      weekStartsOn,
+      periods,
+      startDate: startDate ? parser.parseDate(startDate as string) : undefined,
+      endBefore: endDate ? parser.parseEndDate(endDate as string) : undefined,
+      firstProductId: firstProductId as string | undefined,
+      includeCancelled: req.query.includeCancelled === 'true',
+      includeDeleted: includeDeleted(req),
+    });
+
+    res.json({
+      granularity,
+      metric,
+      periods,
+      timezone,
+      cohorts,
+    });
+  } catch (error: any) {
+    console.error('Cohort retention error:', error);
+    res.status(500).json({ error: 'Failed to get cohort retention', details: error.message });
   }
 });
 
 // Get conversion funnel metrics
-router.get('/funnel', async (req: AuthRequest, res) => {
+router.get('/funnel', unsupported('currency'), async (req: AuthRequest, res) => {
   try {
     if (!req.tenantId) {
       return res.status(403).json({ error: 'Tenant access required' });
     }
 
     const totalCustomers = await prisma.customer.count({
-      where: { tenantId: req.tenantId },
+      where: customerScope(req),
     });
 
     const totalOrders = await prisma.order.count({
-      where: { tenantId: req.tenantId },
+      where: orderScope(req),
     });
 
     const totalRevenue = await prisma.order.aggregate({
-      where: { tenantId: req.tenantId },
+      where: orderScope(req),
       _sum: { totalPrice: true },
     });
 
     const customersWithOrders = await prisma.customer.count({
       where: {
-        tenantId: req.tenantId,
+        ...customerScope(req),
         ordersCount: { gt: 0 },
       },
     });
@@ -475,7 +1289,7 @@ router.get('/funnel', async (req: AuthRequest, res) => {
     const repeatPurchaseRate = customersWithOrders > 0
       ? await prisma.customer.count({
           where: {
-            tenantId: req.tenantId,
+            ...customerScope(req),
             ordersCount: { gt: 1 },
           },
         }) / customersWithOrders * 100
@@ -495,4 +1309,390 @@ router.get('/funnel', async (req: AuthRequest, res) => {
   }
 });
 
+const funnelValidators = (optional: boolean) => {
+  const field = (name: string) => (optional ? body(name).optional() : body(name));
+  return [
+    field('name').isString().notEmpty().withMessage('Name is required'),
+    field('steps').isArray({ min: 2, max: 20 }).withMessage('A funnel needs 2 to 20 steps'),
+    body('steps.*')
+      .matches(/^[a-zA-Z0-9_:.-]{1,100}$/)
+      .withMessage('Steps must be event types or order milestones (order_placed, order_paid)'),
+    body('conversionWindowHours')
+      .optional()
+      .isInt({ min: 1, max: 24 * 365 })
+      .withMessage('conversionWindowHours must be between 1 and 8760'),
+  ];
+};
+
+// List saved funnels
+router.get('/funnels', unsupported('segmentId'), async (req: AuthRequest, res) => {
+  try {
+    const funnelService = new FunnelService(req.tenantId!);
+    const funnels = await funnelService.list();
+
+    res.json({ funnels: funnels.map(serializeFunnel) });
+  } catch (error: any) {
+    console.error('List funnels error:', error);
+    res.status(500).json({ error: 'Failed to list funnels', details: error.message });
+  }
+});
+
+// Create a funnel
+router.post('/funnels', requireRole('analyst'), unsupported('segmentId'), funnelValidators(false), async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const funnelService = new FunnelService(req.tenantId!);
+    const funnel = await funnelService.create({
+      name: req.body.name,
+      steps: req.body.steps,
+      conversionWindowHours: parseInt(req.body.conversionWindowHours) || 168,
+    });
+
+    res.status(201).json(serializeFunnel(funnel));
+  } catch (error: any) {
+    console.error('Create funnel error:', error);
+    res.status(500).json({ error: 'Failed to create funnel', details: error.message });
+  }
+});
+
+// Update a funnel's name, steps or conversion window
+router.put('/funnels/:id', requireRole('analyst'), unsupported('segmentId'), funnelValidators(true), async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const funnelService = new FunnelService(req.tenantId!);
+    const funnel = await funnelService.update(req.params.id, {
+      name: req.body.name,
+      steps: req.body.steps,
+      conversionWindowHours:
+        req.body.conversionWindowHours !== undefined ? parseInt(req.body.conversionWindowHours) : undefined,
+    });
+
+    if (!funnel) {
+      return res.status(404).json({ error: 'Funnel not found' });
+    }
+
+    res.json(serializeFunnel(funnel));
+  } catch (error: any) {
+    console.error('Update funnel error:', error);
+    res.status(500).json({ error: 'Failed to update funnel', details: error.message });
+  }
+});
+
+// Delete a funnel
+router.delete('/funnels/:id', requireRole('analyst'), unsupported('segmentId'), async (req: AuthRequest, res) => {
+  try {
+    const funnelService = new FunnelService(req.tenantId!);
+
+    if (!(await funnelService.delete(req.params.id))) {
+      return res.status(404).json({ error: 'Funnel not found' });
+    }
+
+    res.json({ message: 'Funnel deleted' });
+  } catch (error: any) {
+    console.error('Delete funnel error:', error);
+    res.status(500).json({ error: 'Failed to delete funnel', details: error.message });
+  }
+});
+
+// Compute a funnel's step-by-step conversion, optionally for people entering between startDate and endDate
+router.get('/funnels/:id', async (req: AnalyticsRequest, res) => {
+  try {
+    const funnelService = new FunnelService(req.tenantId!);
+    const funnel = await funnelService.get(req.params.id);
+
+    if (!funnel) {
+      return res.status(404).json({ error: 'Funnel not found' });
+    }
+
+    const { startDate, endDate } = req.query;
+    const steps = await funnelService.compute(funnel, {
+      startDate: startDate ? new Date(startDate as string) : undefined,
+      endDate: endDate ? new Date(endDate as string) : undefined,
+      includeCancelled: req.query.includeCancelled === 'true',
+      customerSegment: req.customerSegment,
+    });
+
+    res.json({
+      funnel: serializeFunnel(funnel),
+      entered: steps[0].count,
+      converted: steps[steps.length - 1].count,
+      conversionRate: steps[steps.length - 1].conversionFromStart,
+      steps,
+    });
+  } catch (error: any) {
+    console.error('Funnel conversion error:', error);
+    res.status(500).json({ error: 'Failed to compute funnel', details: error.message });
+  }
+});
+
+const segmentFiltersValidator = (optional: boolean) =>
+  (optional ? body('filters').optional() : body('filters')).custom((filters) => {
+    const problem = validateSegmentFilters(filters);
+    if (problem) {
+      throw new Error(problem);
+    }
+    return true;
+  });
+
+const segmentValidators = (optional: boolean) => [
+  (optional ? body('name').optional() : body('name')).isString().notEmpty().withMessage('Name is required'),
+  body('description').optional({ nullable: true }).isString(),
+  segmentFiltersValidator(optional),
+];
+
+// List saved customer segments with their live member counts
+router.get('/segments', unsupported('segmentId'), async (req: AuthRequest, res) => {
+  try {
+    const segmentService = new SegmentService(req.tenantId!);
+    const segments = await segmentService.list();
+
+    const counted = await Promise.all(
+      segments.map(async (segment) =>
+        serializeSegment(segment, await segmentService.count(JSON.parse(segment.filters)))
+      )
+    );
+
+    res.json({ segments: counted });
+  } catch (error: any) {
+    console.error('List segments error:', error);
+    res.status(500).json({ error: 'Failed to list segments', details: error.message });
+  }
+});
+
+// Count the customers a filter definition matches, without saving it
+router.post('/segments/preview', requireRole('analyst'), unsupported('segmentId'), segmentFiltersValidator(false), async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const segmentService = new SegmentService(req.tenantId!);
+    const memberCount = await segmentService.count(req.body.filters as SegmentFilters);
+
+    res.json({ memberCount });
+  } catch (error: any) {
+    console.error('Preview segment error:', error);
+    res.status(500).json({ error: 'Failed to preview segment', details: error.message });
+  }
+});
+
+// Create a segment
+router.post('/segments', requireRole('analyst'), unsupported('segmentId'), segmentValidators(false), async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const segmentService = new SegmentService(req.tenantId!);
+    const segment = await segmentService.create({
+      name: req.body.name,
+      description: req.body.description,
+      filters: req.body.filters,
+    });
+
+    res.status(201).json(serializeSegment(segment, await segmentService.count(req.body.filters)));
+  } catch (error: any) {
+    console.error('Create segment error:', error);
+    res.status(500).json({ error: 'Failed to create segment', details: error.message });
+  }
+});
+
+// Get a segment with its live member count
+router.get('/segments/:id', unsupported('segmentId'), async (req: AuthRequest, res) => {
+  try {
+    const segmentService = new SegmentService(req.tenantId!);
+    const segment = await segmentService.get(req.params.id);
+
+    if (!segment) {
+      return res.status(404).json({ error: 'Segment not found' });
+    }
+
+    res.json(serializeSegment(segment, await segmentService.count(JSON.parse(segment.filters))));
+  } catch (error: any) {
+    console.error('Get segment error:', error);
+    res.status(500).json({ error: 'Failed to get segment', details: error.message });
+  }
+});
+
+// Update a segment's name, description or filters
+router.put('/segments/:id', requireRole('analyst'), unsupported('segmentId'), segmentValidators(true), async (req: AuthRequest, res: express.Response) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({ errors: errors.array() });
+    }
+
+    const segmentService = new SegmentService(req.tenantId!);
+    const segment = await segmentService.update(req.params.id, {
+      name: req.body.name,
+      description: req.body.description,
+      filters: req.body.filters,
+    });
+
+    if (!segment) {
+      return res.status(404).json({ error: 'Segment not found' });
+    }
+
+    res.json(serializeSegment(segment, await segmentService.count(JSON.parse(segment.filters))));
+  } catch (error: any) {
+    console.error('Update segment error:', error);
+    res.status(500).json({ error: 'Failed to update segment', details: error.message });
+  }
+});
+
+// Delete a segment
+router.delete('/segments/:id', requireRole('analyst'), unsupported('segmentId'), async (req: AuthRequest, res) => {
+  try {
+    const segmentService = new SegmentService(req.tenantId!);
+
+    if (!(await segmentService.delete(req.params.id))) {
+      return res.status(404).json({ error: 'Segment not found' });
+    }
+
+    res.json({ message: 'Segment deleted' });
+  } catch (error: any) {
+    console.error('Delete segment error:', error);
+    res.status(500).json({ error: 'Failed to delete segment', details: error.message });
+  }
+});
+
+// List a segment's current members, biggest spenders first
+router.get('/segments/:id/customers', unsupported('segmentId'), async (req: AuthRequest, res) => {
+  try {
+    const segmentService = new SegmentService(req.tenantId!);
+    const segment = await segmentService.get(req.params.id);
+
+    if (!segment) {
+      return res.status(404).json({ error: 'Segment not found' });
+    }
+
+    const { limit = 50, offset = 0 } = req.query;
+    const take = Math.min(parseInt(limit as string) || 50, 250);
+    const skip = parseInt(offset as string) || 0;
+
+    const { customers, total } = await segmentService.members(JSON.parse(segment.filters), take, skip);
+
+    res.json({
+      segment: serializeSegment(segment),
+      customers,
+      total,
+      limit: take,
+      offset: skip,
+    });
+  } catch (error: any) {
+    console.error('Segment customers error:', error);
+    res.status(500).json({ error: 'Failed to list segment customers', details: error.message });
+  }
+});
+
+// Predicted LTV and churn distributions across customers, with the fitted model
+router.get('/ltv/distribution', unsupported('segmentId'), unsupported('currency'), async (req: AuthRequest, res) => {
+  try {
+    const ltvService = new LtvService(req.tenantId!);
+    const [model, distribution] = await Promise.all([ltvService.getModel(), ltvService.distribution()]);
+
+    res.json({ model, ...distribution });
+  } catch (error: any) {
+    console.error('LTV distribution error:', error);
+    res.status(500).json({ error: 'Failed to get LTV distribution', details: error.message });
+  }
+});
+
+// Refit the LTV model now instead of waiting for the next sync
+router.post('/ltv/train', requireRole('admin'), unsupported('segmentId'), async (req: AuthRequest, res) => {
+  try {
+    const model = await new LtvService(req.tenantId!).train();
+
+    if (!model) {
+      return res.status(422).json({ error: 'Not enough order history to fit an LTV model yet' });
+    }
+
+    res.json({ message: 'LTV model trained', model });
+  } catch (error: any) {
+    console.error('LTV training error:', error);
+    res.status(500).json({ error: 'Failed to train LTV model', details: error.message });
+  }
+});
+
+// Get one customer with their RFM scores and LTV predictions
+router.get('/customers/:id', unsupported('segmentId'), async (req: AuthRequest, res) => {
+  try {
+    if (!req.tenantId) {
+      return res.status(403).json({ error: 'Tenant access required' });
+    }
+
+    const customer = await prisma.customer.findFirst({
+      where: { ...activeScope(req), id: req.params.id },
+      select: {
+        id: true,
+        shopifyId: true,
+        email: true,
+        firstName: true,
+        lastName: true,
+        phone: true,
+        tags: true,
+        totalSpent: true,
+        ordersCount: true,
+        shopifyCreatedAt: true,
+        deletedAt: true,
+        rfmRecency: true,
+        rfmFrequency: true,
+        rfmMonetary: true,
+        rfmSegment: true,
+        rfmScoredAt: true,
+        predictedLtv: true,
+        expectedPurchases: true,
+        churnProbability: true,
+        ltvScoredAt: true,
+      },
+    });
+
+    if (!customer) {
+      return res.status(404).json({ error: 'Customer not found' });
+    }
+
+    const {
+      rfmRecency,
+      rfmFrequency,
+      rfmMonetary,
+      rfmSegment,
+      rfmScoredAt,
+      predictedLtv,
+      expectedPurchases,
+      churnProbability,
+      ltvScoredAt,
+      ...profile
+    } = customer;
+
+    res.json({
+      ...profile,
+      rfm: rfmScoredAt
+        ? { recency: rfmRecency, frequency: rfmFrequency, monetary: rfmMonetary, segment: rfmSegment, scoredAt: rfmScoredAt }
+        : null,
+      ltv: ltvScoredAt
+        ? {
+            predictedLtv,
+            expectedPurchases,
+            churnProbability,
+            probabilityAlive: churnProbability !== null ? 1 - churnProbability : null,
+            scoredAt: ltvScoredAt,
+          }
+        : null,
+    });
+  } catch (error: any) {
+    console.error('Customer detail error:', error);
+    res.status(500).json({ error: 'Failed to get customer', details: error.message });
+  }
+});
+
 export default router;
@@ -0,0 +1,80 @@
+import express, { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { authenticateToken, requireRole, AuthRequest } from '../middleware/auth.middleware';
+import { API_KEY_SCOPES, ApiKeyService, serializeApiKey } from '../services/api-key.service';
+
+const router = express.Router();
+
+// Managing keys takes a signed-in admin; API keys can't manage other keys
+router.use('/api-keys', authenticateToken, requireRole('admin'));
+
+// ==============================
+// List API keys
+// ==============================
+router.get('/api-keys', async (req: AuthRequest, res: Response) => {
+  try {
+    const apiKeyService = new ApiKeyService(req.tenantId!);
+    const apiKeys = await apiKeyService.list();
+
+    res.json({ apiKeys: apiKeys.map(serializeApiKey) });
+  } catch (error: any) {
+    console.error('List API keys error:', error);
+    res.status(500).json({ error: 'Failed to list API keys', details: error.message });
+  }
+});
+
+// ==============================
+// Create an API key (the key is shown once, in this response)
+// ==============================
+router.post(
+  '/api-keys',
+  [
+    body('name').notEmpty().withMessage('Name is required'),
+    body('scopes').isArray({ min: 1 }).withMessage('At least one scope is required'),
+    body('scopes.*').isIn(API_KEY_SCOPES).withMessage(`Scopes must be from: ${API_KEY_SCOPES.join(', ')}`),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const apiKeyService = new ApiKeyService(req.tenantId!);
+      const { apiKey, key } = await apiKeyService.create(
+        req.body.name,
+        Array.from(new Set(req.body.scopes)),
+        req.userId
+      );
+
+      res.status(201).json({
+        message: 'API key created; store it now, it will not be shown again',
+        apiKey: serializeApiKey(apiKey),
+        key,
+      });
+    } catch (error: any) {
+      console.error('Create API key error:', error);
+      res.status(500).json({ error: 'Failed to create API key', details: error.message });
+    }
+  }
+);
+
+// ==============================
+// Revoke an API key
+// ==============================
+router.delete('/api-keys/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const apiKeyService = new ApiKeyService(req.tenantId!);
+
+    if (!(await apiKeyService.revoke(req.params.id))) {
+      return res.status(404).json({ error: 'API key not found' });
+    }
+
+    res.json({ message: 'API key revoked' });
+  } catch (error: any) {
+    console.error('Revoke API key error:', error);
+    res.status(500).json({ error: 'Failed to revoke API key', details: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,91 @@
+import express, { NextFunction, Request, Response } from 'express';
+import { PublishableKey } from '@prisma/client';
+import { consumeRateLimit } from '../middleware/rate-limit.middleware';
+import { findPublishableKey, isOriginAllowed } from '../services/publishable-key.service';
+import { MAX_EVENTS_PER_BATCH, StorefrontEventService } from '../services/storefront-event.service';
+
+const router = express.Router();
+
+// navigator.sendBeacon posts text/plain, which also skips the CORS preflight
+router.use(express.json({ limit: '256kb' }));
+router.use(express.text({ type: 'text/plain', limit: '256kb' }));
+
+// Resolve the publishable key in the path and apply its CORS policy. The key is in
+// the URL rather than a header so preflight requests can be answered per key.
+async function withPublishableKey(req: Request, res: Response, next: NextFunction) {
+  try {
+    const publishableKey = await findPublishableKey(req.params.key);
+    if (!publishableKey) {
+      return res.status(401).json({ error: 'Invalid or revoked publishable key' });
+    }
+
+    // Requests without an Origin (e.g. server-side) aren't subject to CORS
+    const origin = req.headers.origin;
+    if (origin) {
+      if (!isOriginAllowed(publishableKey, origin)) {
+        return res.status(403).json({ error: 'Origin not allowed for this key' });
+      }
+      res.setHeader('Access-Control-Allow-Origin', origin);
+      res.setHeader('Vary', 'Origin');
+      res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
+      res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
+      res.setHeader('Access-Control-Max-Age', '600');
+    }
+
+    res.locals.publishableKey = publishableKey;
+    next();
+  } catch (error: any) {
+    console.error('Publishable key lookup error:', error);
+    res.status(500).json({ error: 'Failed to verify publishable key', details: error.message });
+  }
+}
+
+// Preflight
+router.options('/:key', withPublishableKey, (req, res) => {
+  res.sendStatus(204);
+});
+
+// Collect a batch of storefront events: { events: [{ type, anonymousId, sessionId?, ... }] }
+router.post('/:key', withPublishableKey, async (req: Request, res: Response) => {
+  try {
+    const publishableKey: PublishableKey = res.locals.publishableKey;
+
+    let body = req.body;
+    if (typeof body === 'string') {
+      try {
+        body = JSON.parse(body);
+      } catch {
+        return res.status(400).json({ error: 'Body must be JSON' });
+      }
+    }
+
+    const events = body?.events;
+    if (!Array.isArray(events) || events.length === 0) {
+      return res.status(400).json({ error: 'events must be a non-empty array' });
+    }
+
+    if (events.length > MAX_EVENTS_PER_BATCH) {
+      return res.status(400).json({ error: `At most ${MAX_EVENTS_PER_BATCH} events per request` });
+    }
+
+    // The limit counts events, not requests, so batching doesn't get around it
+    const limit = consumeRateLimit(`publishable:${publishableKey.id}`, publishableKey.rateLimitPerMinute, events.length);
+    res.setHeader('X-RateLimit-Limit', publishableKey.rateLimitPerMinute);
+    res.setHeader('X-RateLimit-Remaining', limit.remaining);
+
+    if (!limit.allowed) {
+      res.setHeader('Retry-After', Math.ceil(limit.retryAfterMs / 1000));
+      return res.status(429).json({ error: 'Rate limit exceeded' });
+    }
+
+    const storefrontEventService = new StorefrontEventService(publishableKey.tenantId);
+    const result = await storefrontEventService.collect(events);
+
+    res.json(result);
+  } catch (error: any) {
+    console.error('Event collection error:', error);
+    res.status(500).json({ error: 'Failed to collect events', details: error.message });
+  }
+});
+
+export default router;
@@ -0,0 +1,100 @@
+import express, { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { authenticateToken, requireRole, AuthRequest } from '../middleware/auth.middleware';
+import { FxService, FxRateInput, isCurrencyCode, validateFxRates } from '../services/fx.service';
+
+const router = express.Router();
+
+// Anyone who can read analytics can see the rates it converts with; changing them takes an admin
+router.use('/fx-rates', authenticateToken, requireRole('viewer', 'analytics:read'));
+
+// ==============================
+// List exchange rates, newest first (?currency, ?startDate, ?endDate, ?limit, ?offset)
+// ==============================
+router.get('/fx-rates', async (req: AuthRequest, res: Response) => {
+  try {
+    const currency = req.query.currency ? (req.query.currency as string).toUpperCase() : undefined;
+    if (currency !== undefined && !isCurrencyCode(currency)) {
+      return res.status(400).json({ error: 'currency must be a three-letter currency code' });
+    }
+
+    const limit = Math.min(Math.max(parseInt(req.query.limit as string) || 100, 1), 1000);
+    const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+    const fxService = new FxService(req.tenantId!);
+    const { rates, total } = await fxService.list(
+      {
+        currency,
+        startDate: req.query.startDate ? new Date(req.query.startDate as string) : undefined,
+        endDate: req.query.endDate ? new Date(req.query.endDate as string) : undefined,
+      },
+      limit,
+      offset
+    );
+
+    res.json({ rates, total, limit, offset });
+  } catch (error: any) {
+    console.error('List FX rates error:', error);
+    res.status(500).json({ error: 'Failed to list FX rates', details: error.message });
+  }
+});
+
+// ==============================
+// Load daily rates, replacing any stored for the same pair and date
+// ==============================
+router.post(
+  '/fx-rates',
+  requireRole('admin'),
+  [
+    body('rates').custom((rates) => {
+      const problem = validateFxRates(rates);
+      if (problem) {
+        throw new Error(problem);
+      }
+      return true;
+    }),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const fxService = new FxService(req.tenantId!);
+      const loaded = await fxService.upsert(
+        (req.body.rates as FxRateInput[]).map((rate) => ({
+          date: rate.date,
+          base: rate.base,
+          quote: rate.quote,
+          rate: rate.rate,
+        }))
+      );
+
+      res.json({ message: 'FX rates loaded', loaded });
+    } catch (error: any) {
+      console.error('Load FX rates error:', error);
+      res.status(500).json({ error: 'Failed to load FX rates', details: error.message });
+    }
+  }
+);
+
+// ==============================
+// Delete one exchange rate
+// ==============================
+router.delete('/fx-rates/:id', requireRole('admin'), async (req: AuthRequest, res: Response) => {
+  try {
+    const fxService = new FxService(req.tenantId!);
+
+    if (!(await fxService.delete(req.params.id))) {
+      return res.status(404).json({ error: 'FX rate not found' });
+    }
+
+    res.json({ message: 'FX rate deleted' });
+  } catch (error: any) {
+    console.error('Delete FX rate error:', error);
+    res.status(500).json({ error: 'Failed to delete FX rate', details: error.message });
+  }
+});
+
+export default router;
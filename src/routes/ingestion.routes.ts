@@ -1,7 +1,8 @@
 import express from 'express';
 import prisma from '../config/database';
 import { IngestionService } from '../services/ingestion.service';
-import { authenticateToken, requireTenant, AuthRequest } from '../middleware/auth.middleware';
+import { SyncJobService, SyncJobResource, serializeSyncJob } from '../services/sync-job.service';
+import { authenticateToken, requireTenant, requireRole, AuthRequest } from '../middleware/auth.middleware';
 
 const router = express.Router();
 
@@ -9,140 +10,118 @@ const router = express.Router();
 router.use(authenticateToken);
 router.use(requireTenant);
 
-// Trigger full data ingestion
-router.post('/sync/all', async (req: AuthRequest, res) => {
-  try {
-    if (!req.tenantId) {
-      return res.status(403).json({ error: 'Tenant access required' });
-    }
-
-    const tenant = await prisma.tenant.findUnique({
-      where: { id: req.tenantId },
-    });
-
-    if (!tenant) {
-      return res.status(404).json({ error: 'Tenant not found' });
+// Only admins can trigger syncs
+router.use('/sync', requireRole('admin'));
+
+// A full resync ignores the stored cursors: { "full": true } in the body or ?full=true
+function isFullResync(req: AuthRequest): boolean {
+  return req.body?.full === true || req.body?.full === 'true' || req.query.full === 'true';
+}
+
+// Queue a background sync job for a resource and return its id immediately
+function syncRoute(resource: SyncJobResource, label: string) {
+  return async (req: AuthRequest, res: express.Response) => {
+    try {
+      if (!req.tenantId) {
+        return res.status(403).json({ error: 'Tenant access required' });
+      }
+
+      const tenant = await prisma.tenant.findUnique({
+        where: { id: req.tenantId },
+      });
+
+      if (!tenant) {
+        return res.status(404).json({ error: 'Tenant not found' });
+      }
+
+      const syncJobService = new SyncJobService(tenant.id);
+      const { job, created } = await syncJobService.start(resource, 'manual', {
+        full: isFullResync(req),
+      });
+
+      res.status(202).json({
+        message: created ? `${label} sync queued` : 'A sync is already in progress',
+        jobId: job.id,
+        job: serializeSyncJob(job),
+      });
+    } catch (error: any) {
+      console.error(`${label} sync error:`, error);
+      res.status(500).json({ error: `Failed to start ${label.toLowerCase()} sync`, details: error.message });
     }
+  };
+}
 
-    const ingestionService = new IngestionService(
-      tenant.id,
-      tenant.shopDomain,
-      tenant.accessToken
-    );
-
-    const result = await ingestionService.ingestAll();
-
-    res.json({
-      message: 'Data ingestion completed',
-      result,
-    });
-  } catch (error: any) {
-    console.error('Ingestion error:', error);
-    res.status(500).json({ error: 'Failed to ingest data', details: error.message });
-  }
-});
+// Trigger data ingestion for all resources
+router.post('/sync/all', syncRoute('all', 'Full data'));
 
 // Sync customers only
-router.post('/sync/customers', async (req: AuthRequest, res) => {
-  try {
-    if (!req.tenantId) {
-      return res.status(403).json({ error: 'Tenant access required' });
-    }
+router.post('/sync/customers', syncRoute('customers', 'Customers'));
 
-    const tenant = await prisma.tenant.findUnique({
-      where: { id: req.tenantId },
-    });
-
-    if (!tenant) {
-      return res.status(404).json({ error: 'Tenant not found' });
-    }
+// Sync products only
+router.post('/sync/products', syncRoute('products', 'Products'));
 
-    const ingestionService = new IngestionService(
-      tenant.id,
-      tenant.shopDomain,
-      tenant.accessToken
-    );
+// Sync orders only
+router.post('/sync/orders', syncRoute('orders', 'Orders'));
 
-    const result = await ingestionService.ingestCustomers();
+// Sync locations and inventory levels only
+router.post('/sync/inventory', syncRoute('inventory', 'Inventory'));
 
-    res.json({
-      message: 'Customers ingestion completed',
-      result,
-    });
-  } catch (error: any) {
-    console.error('Customers ingestion error:', error);
-    res.status(500).json({ error: 'Failed to ingest customers', details: error.message });
-  }
-});
+// Sync abandoned checkouts only
+router.post('/sync/checkouts', syncRoute('checkouts', 'Checkouts'));
 
-// Sync products only
-router.post('/sync/products', async (req: AuthRequest, res) => {
+// List sync jobs, newest first
+router.get('/jobs', requireRole('viewer'), async (req: AuthRequest, res) => {
   try {
     if (!req.tenantId) {
       return res.status(403).json({ error: 'Tenant access required' });
     }
 
-    const tenant = await prisma.tenant.findUnique({
-      where: { id: req.tenantId },
-    });
+    const { status, resource, limit = 20, offset = 0 } = req.query;
+    const take = Math.min(parseInt(limit as string) || 20, 100);
+    const skip = parseInt(offset as string) || 0;
 
-    if (!tenant) {
-      return res.status(404).json({ error: 'Tenant not found' });
-    }
-
-    const ingestionService = new IngestionService(
-      tenant.id,
-      tenant.shopDomain,
-      tenant.accessToken
+    const syncJobService = new SyncJobService(req.tenantId);
+    const { jobs, total } = await syncJobService.list(
+      { status: status as string | undefined, resource: resource as string | undefined },
+      take,
+      skip
     );
 
-    const result = await ingestionService.ingestProducts();
-
     res.json({
-      message: 'Products ingestion completed',
-      result,
+      jobs: jobs.map(serializeSyncJob),
+      total,
+      limit: take,
+      offset: skip,
     });
   } catch (error: any) {
-    console.error('Products ingestion error:', error);
-    res.status(500).json({ error: 'Failed to ingest products', details: error.message });
+    console.error('List sync jobs error:', error);
+    res.status(500).json({ error: 'Failed to list sync jobs', details: error.message });
   }
 });
 
-// Sync orders only
-router.post('/sync/orders', async (req: AuthRequest, res) => {
+// Get a single sync job (poll for status)
+router.get('/jobs/:id', requireRole('viewer'), async (req: AuthRequest, res) => {
   try {
     if (!req.tenantId) {
       return res.status(403).json({ error: 'Tenant access required' });
     }
 
-    const tenant = await prisma.tenant.findUnique({
-      where: { id: req.tenantId },
-    });
+    const syncJobService = new SyncJobService(req.tenantId);
+    const job = await syncJobService.get(req.params.id);
 
-    if (!tenant) {
-      return res.status(404).json({ error: 'Tenant not found' });
+    if (!job) {
+      return res.status(404).json({ error: 'Sync job not found' });
     }
 
-    const ingestionService = new IngestionService(
-      tenant.id,
-      tenant.shopDomain,
-      tenant.accessToken
-    );
-
-    const result = await ingestionService.ingestOrders();
-
-    res.json({
-      message: 'Orders ingestion completed',
-      result,
-    });
+    res.json(serializeSyncJob(job));
   } catch (error: any) {
-    console.error('Orders ingestion error:', error);
-    res.status(500).json({ error: 'Failed to ingest orders', details: error.message });
+    console.error('Get sync job error:', error);
+    res.status(500).json({ error: 'Failed to get sync job', details: error.message });
   }
 });
 
 // Record a custom event (webhook endpoint)
-router.post('/events', async (req: AuthRequest, res) => {
+router.post('/events', requireRole('analyst', 'events:write'), async (req: AuthRequest, res) => {
   try {
     if (!req.tenantId) {
       return res.status(403).json({ error: 'Tenant access required' });
@@ -0,0 +1,315 @@
+import express, { Request, Response } from 'express';
+import crypto from 'crypto';
+import bcrypt from 'bcryptjs';
+import { body, validationResult } from 'express-validator';
+import prisma from '../config/database';
+import { createSession } from '../services/session.service';
+import { authenticateToken, hasRole, requireRole, AuthRequest, Role, ROLES } from '../middleware/auth.middleware';
+
+const router = express.Router();
+
+// How long an invitation link stays valid
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Owners can't be removed or demoted if that would leave the tenant without one
+async function isLastOwner(tenantId: string, userId: string): Promise<boolean> {
+  const owners = await prisma.user.findMany({
+    where: { tenantId, role: 'owner' },
+    select: { id: true },
+  });
+  return owners.length === 1 && owners[0].id === userId;
+}
+
+// ==============================
+// List members of the tenant
+// ==============================
+router.get('/members', authenticateToken, requireRole('admin'), async (req: AuthRequest, res: Response) => {
+  try {
+    const members = await prisma.user.findMany({
+      where: { tenantId: req.tenantId },
+      select: { id: true, email: true, name: true, role: true, createdAt: true },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    res.json({ members });
+  } catch (error: any) {
+    console.error('List members error:', error);
+    res.status(500).json({ error: 'Failed to list members', details: error.message });
+  }
+});
+
+// ==============================
+// Change a member's role
+// ==============================
+router.put(
+  '/members/:id/role',
+  authenticateToken,
+  requireRole('admin'),
+  [body('role').isIn(ROLES).withMessage(`Role must be one of: ${ROLES.join(', ')}`)],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const member = await prisma.user.findFirst({
+        where: { id: req.params.id, tenantId: req.tenantId },
+      });
+
+      if (!member) {
+        return res.status(404).json({ error: 'Member not found' });
+      }
+
+      // Nobody can grant a role above their own, or change someone who outranks them
+      if (!hasRole(req.role!, req.body.role) || !hasRole(req.role!, member.role as Role)) {
+        return res.status(403).json({ error: 'You cannot assign or change a role above your own' });
+      }
+
+      if (member.role === 'owner' && req.body.role !== 'owner' && (await isLastOwner(member.tenantId!, member.id))) {
+        return res.status(400).json({ error: 'The tenant must keep at least one owner' });
+      }
+
+      const updated = await prisma.user.update({
+        where: { id: member.id },
+        data: { role: req.body.role },
+        select: { id: true, email: true, name: true, role: true },
+      });
+
+      res.json({ message: 'Role updated', member: updated });
+    } catch (error: any) {
+      console.error('Update member role error:', error);
+      res.status(500).json({ error: 'Failed to update role', details: error.message });
+    }
+  }
+);
+
+// ==============================
+// Remove a member from the tenant (their login remains, without tenant access)
+// ==============================
+router.delete('/members/:id', authenticateToken, requireRole('admin'), async (req: AuthRequest, res: Response) => {
+  try {
+    const member = await prisma.user.findFirst({
+      where: { id: req.params.id, tenantId: req.tenantId },
+    });
+
+    if (!member) {
+      return res.status(404).json({ error: 'Member not found' });
+    }
+
+    if (!hasRole(req.role!, member.role as Role)) {
+      return res.status(403).json({ error: 'You cannot remove a member with a higher role' });
+    }
+
+    if (member.role === 'owner' && (await isLastOwner(member.tenantId!, member.id))) {
+      return res.status(400).json({ error: 'The tenant must keep at least one owner' });
+    }
+
+    await prisma.user.update({
+      where: { id: member.id },
+      data: { tenantId: null, role: 'viewer' },
+    });
+
+    res.json({ message: 'Member removed' });
+  } catch (error: any) {
+    console.error('Remove member error:', error);
+    res.status(500).json({ error: 'Failed to remove member', details: error.message });
+  }
+});
+
+// ==============================
+// Invite a user by email
+// ==============================
+router.post(
+  '/invitations',
+  authenticateToken,
+  requireRole('admin'),
+  [
+    body('email').isEmail().withMessage('Valid email is required'),
+    body('role').isIn(ROLES).withMessage(`Role must be one of: ${ROLES.join(', ')}`),
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { email, role } = req.body;
+
+      if (!hasRole(req.role!, role)) {
+        return res.status(403).json({ error: 'You cannot invite someone with a role above your own' });
+      }
+
+      const existingUser = await prisma.user.findUnique({ where: { email } });
+      if (existingUser?.tenantId) {
+        return res.status(400).json({
+          error:
+            existingUser.tenantId === req.tenantId
+              ? 'User is already a member of this tenant'
+              : 'User already belongs to another tenant',
+        });
+      }
+
+      // The token is only returned here; the database keeps its hash
+      const token = crypto.randomBytes(32).toString('hex');
+      const invitation = await prisma.invitation.create({
+        data: {
+          tenantId: req.tenantId!,
+          email,
+          role,
+          tokenHash: hashToken(token),
+          invitedById: req.userId,
+          expiresAt: new Date(Date.now() + INVITATION_TTL_MS),
+        },
+        select: { id: true, email: true, role: true, expiresAt: true, createdAt: true },
+      });
+
+      const frontendUrl = (process.env.FRONTEND_URL || 'http://localhost:3000').replace(/\/$/, '');
+
+      res.status(201).json({
+        message: 'Invitation created',
+        invitation,
+        token,
+        inviteUrl: `${frontendUrl}/accept-invite?token=${token}`,
+      });
+    } catch (error: any) {
+      console.error('Create invitation error:', error);
+      res.status(500).json({ error: 'Failed to create invitation', details: error.message });
+    }
+  }
+);
+
+// ==============================
+// List pending invitations
+// ==============================
+router.get('/invitations', authenticateToken, requireRole('admin'), async (req: AuthRequest, res: Response) => {
+  try {
+    const invitations = await prisma.invitation.findMany({
+      where: { tenantId: req.tenantId, acceptedAt: null, expiresAt: { gt: new Date() } },
+      select: {
+        id: true,
+        email: true,
+        role: true,
+        expiresAt: true,
+        createdAt: true,
+        invitedBy: { select: { id: true, email: true, name: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    res.json({ invitations });
+  } catch (error: any) {
+    console.error('List invitations error:', error);
+    res.status(500).json({ error: 'Failed to list invitations', details: error.message });
+  }
+});
+
+// ==============================
+// Revoke a pending invitation
+// ==============================
+router.delete('/invitations/:id', authenticateToken, requireRole('admin'), async (req: AuthRequest, res: Response) => {
+  try {
+    const { count } = await prisma.invitation.deleteMany({
+      where: { id: req.params.id, tenantId: req.tenantId, acceptedAt: null },
+    });
+
+    if (count === 0) {
+      return res.status(404).json({ error: 'Invitation not found' });
+    }
+
+    res.json({ message: 'Invitation revoked' });
+  } catch (error: any) {
+    console.error('Revoke invitation error:', error);
+    res.status(500).json({ error: 'Failed to revoke invitation', details: error.message });
+  }
+});
+
+// ==============================
+// Accept an invitation. A new user sets a name and password; a user without a
+// tenant (e.g. removed from another one) confirms their existing password.
+// ==============================
+router.post(
+  '/invitations/accept',
+  [
+    body('token').notEmpty().withMessage('Invitation token is required'),
+    body('password').isLength({ min: 6 }).withMessage('Password must be at least 6 characters'),
+  ],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const { token, name, password } = req.body;
+
+      const invitation = await prisma.invitation.findUnique({
+        where: { tokenHash: hashToken(token) },
+        include: { tenant: true },
+      });
+
+      if (!invitation || invitation.acceptedAt || invitation.expiresAt < new Date()) {
+        return res.status(400).json({ error: 'Invalid or expired invitation' });
+      }
+
+      const existingUser = await prisma.user.findUnique({ where: { email: invitation.email } });
+
+      if (existingUser?.tenantId) {
+        return res.status(400).json({ error: 'User already belongs to a tenant' });
+      }
+
+      if (existingUser && !(await bcrypt.compare(password, existingUser.password))) {
+        return res.status(401).json({ error: 'Invalid email or password' });
+      }
+
+      const user = await prisma.$transaction(async (tx) => {
+        // Claim the invitation first so two concurrent accepts can't both succeed
+        const { count } = await tx.invitation.updateMany({
+          where: { id: invitation.id, acceptedAt: null },
+          data: { acceptedAt: new Date() },
+        });
+        if (count === 0) {
+          throw new Error('Invitation was already accepted');
+        }
+
+        const membership = { tenantId: invitation.tenantId, role: invitation.role };
+        return existingUser
+          ? tx.user.update({ where: { id: existingUser.id }, data: membership })
+          : tx.user.create({
+              data: {
+                email: invitation.email,
+                password: await bcrypt.hash(password, 10),
+                name: name || null,
+                ...membership,
+              },
+            });
+      });
+
+      const session = await createSession(user);
+
+      res.status(201).json({
+        message: 'Invitation accepted',
+        tenant: {
+          id: invitation.tenant.id,
+          shopDomain: invitation.tenant.shopDomain,
+          name: invitation.tenant.name,
+        },
+        user: {
+          id: user.id,
+          email: user.email,
+          name: user.name,
+          role: user.role,
+        },
+        ...session,
+      });
+    } catch (error: any) {
+      console.error('Accept invitation error:', error);
+      res.status(500).json({ error: 'Failed to accept invitation', details: error.message });
+    }
+  }
+);
+
+export default router;
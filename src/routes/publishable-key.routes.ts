@@ -0,0 +1,122 @@
+import express, { Response } from 'express';
+import { body, validationResult } from 'express-validator';
+import { authenticateToken, requireRole, AuthRequest } from '../middleware/auth.middleware';
+import { PublishableKeyService, serializePublishableKey } from '../services/publishable-key.service';
+
+const router = express.Router();
+
+router.use('/publishable-keys', authenticateToken, requireRole('admin'));
+
+const settingsValidators = [
+  body('allowedOrigins.*')
+    .isURL({ require_protocol: true, require_tld: false, protocols: ['http', 'https'] })
+    .withMessage('Origins must be URLs like https://shop.example.com'),
+  body('rateLimitPerMinute')
+    .optional()
+    .isInt({ min: 1, max: 100000 })
+    .withMessage('rateLimitPerMinute must be between 1 and 100000'),
+];
+
+// ==============================
+// List publishable keys
+// ==============================
+router.get('/publishable-keys', async (req: AuthRequest, res: Response) => {
+  try {
+    const publishableKeyService = new PublishableKeyService(req.tenantId!);
+    const keys = await publishableKeyService.list();
+
+    res.json({ publishableKeys: keys.map(serializePublishableKey) });
+  } catch (error: any) {
+    console.error('List publishable keys error:', error);
+    res.status(500).json({ error: 'Failed to list publishable keys', details: error.message });
+  }
+});
+
+// ==============================
+// Create a publishable key for a storefront
+// ==============================
+router.post(
+  '/publishable-keys',
+  [
+    body('name').notEmpty().withMessage('Name is required'),
+    body('allowedOrigins').isArray({ min: 1 }).withMessage('At least one allowed origin is required'),
+    ...settingsValidators,
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const publishableKeyService = new PublishableKeyService(req.tenantId!);
+      const key = await publishableKeyService.create(
+        req.body.name,
+        req.body.allowedOrigins,
+        req.body.rateLimitPerMinute !== undefined ? parseInt(req.body.rateLimitPerMinute) : undefined
+      );
+
+      res.status(201).json({ message: 'Publishable key created', publishableKey: serializePublishableKey(key) });
+    } catch (error: any) {
+      console.error('Create publishable key error:', error);
+      res.status(500).json({ error: 'Failed to create publishable key', details: error.message });
+    }
+  }
+);
+
+// ==============================
+// Update a publishable key's name, allowed origins or rate limit
+// ==============================
+router.put(
+  '/publishable-keys/:id',
+  [
+    body('name').optional().notEmpty().withMessage('Name cannot be empty'),
+    body('allowedOrigins').optional().isArray().withMessage('allowedOrigins must be an array'),
+    ...settingsValidators,
+  ],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const publishableKeyService = new PublishableKeyService(req.tenantId!);
+      const key = await publishableKeyService.update(req.params.id, {
+        name: req.body.name,
+        allowedOrigins: req.body.allowedOrigins,
+        rateLimitPerMinute:
+          req.body.rateLimitPerMinute !== undefined ? parseInt(req.body.rateLimitPerMinute) : undefined,
+      });
+
+      if (!key) {
+        return res.status(404).json({ error: 'Publishable key not found' });
+      }
+
+      res.json({ message: 'Publishable key updated', publishableKey: serializePublishableKey(key) });
+    } catch (error: any) {
+      console.error('Update publishable key error:', error);
+      res.status(500).json({ error: 'Failed to update publishable key', details: error.message });
+    }
+  }
+);
+
+// ==============================
+// Revoke a publishable key
+// ==============================
+router.delete('/publishable-keys/:id', async (req: AuthRequest, res: Response) => {
+  try {
+    const publishableKeyService = new PublishableKeyService(req.tenantId!);
+
+    if (!(await publishableKeyService.revoke(req.params.id))) {
+      return res.status(404).json({ error: 'Publishable key not found' });
+    }
+
+    res.json({ message: 'Publishable key revoked' });
+  } catch (error: any) {
+    console.error('Revoke publishable key error:', error);
+    res.status(500).json({ error: 'Failed to revoke publishable key', details: error.message });
+  }
+});
+
+export default router;
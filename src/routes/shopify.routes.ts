@@ -0,0 +1,101 @@
+import express, { Request, Response } from 'express';
+import jwt from 'jsonwebtoken';
+import prisma from '../config/database';
+import { getJwtConfig } from '../config/auth';
+import { getShopifyOAuthConfig } from '../config/shopify';
+import { ShopifyOAuthService } from '../services/shopify-oauth.service';
+
+const router = express.Router();
+const oauthService = new ShopifyOAuthService();
+
+// ==============================
+// Start an install: redirect the merchant to Shopify's permission screen
+// ==============================
+router.get('/install', async (req: Request, res: Response) => {
+  try {
+    const shopDomain = oauthService.normalizeShopDomain(req.query.shop);
+    if (!shopDomain) {
+      return res.status(400).json({ error: 'A valid *.myshopify.com shop domain is required' });
+    }
+
+    const { apiKey, apiSecret, appUrl } = getShopifyOAuthConfig();
+    if (!apiKey || !apiSecret || !appUrl) {
+      return res.status(500).json({
+        error: 'Shopify OAuth is not configured (SHOPIFY_API_KEY, SHOPIFY_API_SECRET, SHOPIFY_APP_URL)',
+      });
+    }
+
+    // Installs launched from Shopify carry an hmac; direct links from our own frontend don't
+    if (req.query.hmac && !oauthService.verifyQueryHmac(req.query)) {
+      return res.status(401).json({ error: 'Invalid HMAC' });
+    }
+
+    const state = await oauthService.createState(shopDomain);
+    res.redirect(oauthService.buildAuthorizeUrl(shopDomain, state));
+  } catch (error: any) {
+    console.error('Shopify install error:', error);
+    res.status(500).json({ error: 'Failed to start Shopify install', details: error.message });
+  }
+});
+
+// ==============================
+// Finish an install: Shopify redirects back here with an authorization code
+// ==============================
+router.get('/callback', async (req: Request, res: Response) => {
+  try {
+    const shopDomain = oauthService.normalizeShopDomain(req.query.shop);
+    const { code, state } = req.query;
+
+    if (!shopDomain || typeof code !== 'string' || typeof state !== 'string') {
+      return res.status(400).json({ error: 'shop, code and state are required' });
+    }
+
+    if (!oauthService.verifyQueryHmac(req.query)) {
+      return res.status(401).json({ error: 'Invalid HMAC' });
+    }
+
+    if (!(await oauthService.consumeState(shopDomain, state))) {
+      return res.status(403).json({ error: 'Invalid or expired state' });
+    }
+
+    const { tenant, created, webhooks } = await oauthService.completeInstall(shopDomain, code);
+
+    if (webhooks.failed.length > 0) {
+      console.error(`Webhook registration failed for ${shopDomain}:`, webhooks.failed);
+    }
+
+    // A shop nobody has signed up for yet gets a short-lived token that
+    // POST /api/tenant/register exchanges for its first user account
+    const userCount = await prisma.user.count({ where: { tenantId: tenant.id } });
+    const installToken =
+      userCount === 0
+        ? jwt.sign({ tenantId: tenant.id, purpose: 'install' }, getJwtConfig().secret, {
+            expiresIn: '1h',
+          })
+        : null;
+
+    if (process.env.FRONTEND_URL) {
+      const next = installToken
+        ? `/register?${new URLSearchParams({ shop: shopDomain, installToken })}`
+        : `/login?${new URLSearchParams({ shop: shopDomain })}`;
+      return res.redirect(`${process.env.FRONTEND_URL.replace(/\/$/, '')}${next}`);
+    }
+
+    res.status(created ? 201 : 200).json({
+      message: created ? 'Shop installed successfully' : 'Shop reinstalled successfully',
+      tenant: {
+        id: tenant.id,
+        shopDomain: tenant.shopDomain,
+        name: tenant.name,
+        scope: tenant.scope,
+      },
+      webhooks,
+      installToken,
+    });
+  } catch (error: any) {
+    console.error('Shopify callback error:', error);
+    res.status(500).json({ error: 'Failed to complete Shopify install', details: error.message });
+  }
+});
+
+export default router;
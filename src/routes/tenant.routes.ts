@@ -1,20 +1,32 @@
 import express, { Request, Response } from 'express';
 import prisma from '../config/database';
-import { authenticateToken, AuthRequest } from '../middleware/auth.middleware';
+import { authenticateToken, requireRole, AuthRequest } from '../middleware/auth.middleware';
 import { body, validationResult } from 'express-validator';
 import bcrypt from 'bcryptjs';
 import jwt from 'jsonwebtoken';
+import { getJwtConfig } from '../config/auth';
+import { encryptAccessToken } from '../services/credential.service';
+import {
+  createSession,
+  refreshSession,
+  RefreshTokenError,
+  revokeAllSessions,
+  revokeSession,
+} from '../services/session.service';
 
 const router = express.Router();
 
 // ==============================
-// Register a new tenant
+// Register a new tenant, or the first user of a shop installed through OAuth
 // ==============================
 router.post(
   '/register',
   [
-    body('shopDomain').notEmpty().withMessage('Shop domain is required'),
-    body('accessToken').notEmpty().withMessage('Access token is required'),
+    body('shopDomain').if(body('installToken').not().exists()).notEmpty().withMessage('Shop domain is required'),
+    body('accessToken')
+      .if(body('installToken').not().exists())
+      .notEmpty()
+      .withMessage('Access token or install token is required'),
     body('name').notEmpty().withMessage('Name is required'),
     body('email').isEmail().withMessage('Valid email is required'),
     body('password').isLength({ min: 6 }).withMessage('Password must be at least 6 characters'),
@@ -26,16 +38,7 @@ router.post(
         return res.status(400).json({ errors: errors.array() });
       }
 
-      const { shopDomain, accessToken, name, email, password } = req.body;
-
-      // Check tenant exists
-      const existingTenant = await prisma.tenant.findUnique({
-        where: { shopDomain },
-      });
-
-      if (existingTenant) {
-        return res.status(400).json({ error: 'Tenant with this shop domain already exists' });
-      }
+      const { shopDomain, accessToken, installToken, name, email, password } = req.body;
 
       // Check user exists
       const existingUser = await prisma.user.findUnique({
@@ -46,36 +49,84 @@ router.post(
         return res.status(400).json({ error: 'User with this email already exists' });
       }
 
+      let tenant;
+      if (installToken) {
+        // The shop was installed through /api/shopify/callback, which already stored its token
+        let claims: any;
+        try {
+          claims = jwt.verify(installToken, getJwtConfig().secret);
+        } catch {
+          return res.status(400).json({ error: 'Invalid or expired install token' });
+        }
+
+        if (claims.purpose !== 'install') {
+          return res.status(400).json({ error: 'Invalid or expired install token' });
+        }
+
+        tenant = await prisma.tenant.findUnique({
+          where: { id: claims.tenantId },
+          include: { _count: { select: { users: true } } },
+        });
+
+        if (!tenant) {
+          return res.status(404).json({ error: 'Tenant not found' });
+        }
+
+        if (tenant._count.users > 0) {
+          return res.status(400).json({ error: 'This shop already has an account; log in instead' });
+        }
+      } else {
+        // Check tenant exists
+        const existingTenant = await prisma.tenant.findUnique({
+          where: { shopDomain },
+        });
+
+        if (existingTenant) {
+          return res.status(400).json({ error: 'Tenant with this shop domain already exists' });
+        }
+
+        // Create tenant
+        tenant = await prisma.tenant.create({
+          data: {
+            shopDomain,
+            ...encryptAccessToken(accessToken),
+            name,
+            email,
+          },
+        });
+      }
+
       // Hash password
       const hashedPassword = await bcrypt.hash(password, 10);
 
-      // Create tenant
-      const tenant = await prisma.tenant.create({
-        data: {
-          shopDomain,
-          accessToken,
-          name,
-          email,
-        },
-      });
+      // Create user. An install token can be sent twice at once, so its tenant is locked
+      // and checked again for users before its owner is created.
+      const tenantId = tenant.id;
+      const user = await prisma.$transaction(async (tx) => {
+        if (installToken) {
+          await tx.$queryRaw`SELECT id FROM "tenants" WHERE id = ${tenantId} FOR UPDATE`;
+          if ((await tx.user.count({ where: { tenantId } })) > 0) {
+            return null;
+          }
+        }
 
-      // Create user
-      const user = await prisma.user.create({
-        data: {
-          email,
-          password: hashedPassword,
-          name,
-          tenantId: tenant.id,
-        },
+        return tx.user.create({
+          data: {
+            email,
+            password: hashedPassword,
+            name,
+            role: 'owner',
+            tenantId,
+          },
+        });
       });
 
-      // Generate token
-      const jwtSecret = process.env.JWT_SECRET || 'secret-key';
-      const token = jwt.sign(
-        { userId: user.id, tenantId: tenant.id, email: user.email },
-        jwtSecret,
-        { expiresIn: '7d' }
-      );
+      if (!user) {
+        return res.status(400).json({ error: 'This shop already has an account; log in instead' });
+      }
+
+      // Start a session
+      const session = await createSession(user);
 
       res.status(201).json({
         message: 'Tenant registered successfully',
@@ -88,8 +139,9 @@ router.post(
           id: user.id,
           email: user.email,
           name: user.name,
+          role: user.role,
         },
-        token,
+        ...session,
       });
     } catch (error: any) {
       console.error('Tenant registration error:', error);
@@ -130,12 +182,7 @@ router.post(
         return res.status(401).json({ error: 'Invalid email or password' });
       }
 
-      const jwtSecret = process.env.JWT_SECRET || 'secret-key';
-      const token = jwt.sign(
-        { userId: user.id, tenantId: user.tenantId, email: user.email },
-        jwtSecret,
-        { expiresIn: '7d' }
-      );
+      const session = await createSession(user);
 
       res.json({
         message: 'Login successful',
@@ -143,6 +190,7 @@ router.post(
           id: user.id,
           email: user.email,
           name: user.name,
+          role: user.role,
         },
         tenant: user.tenant
           ? {
@@ -151,7 +199,7 @@ router.post(
               name: user.tenant.name,
             }
           : null,
-        token,
+        ...session,
       });
     } catch (error: any) {
       console.error('Login error:', error);
@@ -160,10 +208,74 @@ router.post(
   }
 );
 
+// ==============================
+// Exchange a refresh token for a new access token (the refresh token rotates)
+// ==============================
+router.post(
+  '/refresh',
+  [body('refreshToken').notEmpty().withMessage('Refresh token is required')],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      const session = await refreshSession(req.body.refreshToken);
+      res.json({ message: 'Token refreshed', ...session });
+    } catch (error: any) {
+      if (error instanceof RefreshTokenError) {
+        return res.status(401).json({ error: error.message });
+      }
+      console.error('Refresh token error:', error);
+      res.status(500).json({ error: 'Failed to refresh token', details: error.message });
+    }
+  }
+);
+
+// ==============================
+// Log out of the current session
+// ==============================
+router.post(
+  '/logout',
+  [body('refreshToken').notEmpty().withMessage('Refresh token is required')],
+  async (req: Request, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      await revokeSession(req.body.refreshToken);
+      res.json({ message: 'Logged out' });
+    } catch (error: any) {
+      console.error('Logout error:', error);
+      res.status(500).json({ error: 'Failed to logout', details: error.message });
+    }
+  }
+);
+
+// ==============================
+// Log out of every session of the current user
+// ==============================
+router.post('/logout-all', authenticateToken, async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.userId) {
+      return res.status(403).json({ error: 'User access required' });
+    }
+
+    const revoked = await revokeAllSessions(req.userId);
+    res.json({ message: 'Logged out of all sessions', revoked });
+  } catch (error: any) {
+    console.error('Logout all error:', error);
+    res.status(500).json({ error: 'Failed to logout of all sessions', details: error.message });
+  }
+});
+
 // ==============================
 // Get current tenant
 // ==============================
-router.get('/me', authenticateToken, async (req: AuthRequest, res: Response) => {
+router.get('/me', authenticateToken, requireRole('viewer'), async (req: AuthRequest, res: Response) => {
   try {
     if (!req.tenantId) {
       return res.status(403).json({ error: 'Tenant access required' });
@@ -176,6 +288,7 @@ router.get('/me', authenticateToken, async (req: AuthRequest, res: Response) =>
         shopDomain: true,
         name: true,
         email: true,
+        lowStockThreshold: true,
         createdAt: true,
       },
     });
@@ -184,11 +297,130 @@ router.get('/me', authenticateToken, async (req: AuthRequest, res: Response) =>
       return res.status(404).json({ error: 'Tenant not found' });
     }
 
-    res.json(tenant);
+    res.json({ ...tenant, role: req.role });
   } catch (error: any) {
     console.error('Get tenant error:', error);
     res.status(500).json({ error: 'Failed to get tenant info', details: error.message });
   }
 });
 
-export default router;
\ No newline at end of file
+// ==============================
+// Set the low-stock alert threshold
+// ==============================
+router.put(
+  '/low-stock-threshold',
+  authenticateToken,
+  requireRole('admin'),
+  [body('threshold').isInt({ min: 0 }).withMessage('Threshold must be a non-negative integer')],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      if (!req.tenantId) {
+        return res.status(403).json({ error: 'Tenant access required' });
+      }
+
+      const tenant = await prisma.tenant.update({
+        where: { id: req.tenantId },
+        data: { lowStockThreshold: parseInt(req.body.threshold) },
+        select: { lowStockThreshold: true },
+      });
+
+      res.json({ message: 'Low-stock threshold updated', lowStockThreshold: tenant.lowStockThreshold });
+    } catch (error: any) {
+      console.error('Update low-stock threshold error:', error);
+      res.status(500).json({ error: 'Failed to update low-stock threshold', details: error.message });
+    }
+  }
+);
+
+// ==============================
+// Rotate the tenant's webhook secret override
+// ==============================
+router.put(
+  '/webhook-secret',
+  authenticateToken,
+  requireRole('admin'),
+  [body('secret').isLength({ min: 16 }).withMessage('Secret must be at least 16 characters')],
+  async (req: AuthRequest, res: Response) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({ errors: errors.array() });
+      }
+
+      if (!req.tenantId) {
+        return res.status(403).json({ error: 'Tenant access required' });
+      }
+
+      const tenant = await prisma.tenant.findUnique({
+        where: { id: req.tenantId },
+      });
+
+      if (!tenant) {
+        return res.status(404).json({ error: 'Tenant not found' });
+      }
+
+      // The old secret stays valid until the rotation is finished
+      await prisma.tenant.update({
+        where: { id: tenant.id },
+        data: {
+          webhookSecret: req.body.secret,
+          webhookSecretPrevious: tenant.webhookSecret,
+        },
+      });
+
+      res.json({ message: 'Webhook secret updated', previousSecretAccepted: !!tenant.webhookSecret });
+    } catch (error: any) {
+      console.error('Update webhook secret error:', error);
+      res.status(500).json({ error: 'Failed to update webhook secret', details: error.message });
+    }
+  }
+);
+
+// ==============================
+// Finish a webhook secret rotation
+// ==============================
+router.delete('/webhook-secret/previous', authenticateToken, requireRole('admin'), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.tenantId) {
+      return res.status(403).json({ error: 'Tenant access required' });
+    }
+
+    await prisma.tenant.update({
+      where: { id: req.tenantId },
+      data: { webhookSecretPrevious: null },
+    });
+
+    res.json({ message: 'Previous webhook secret revoked' });
+  } catch (error: any) {
+    console.error('Revoke previous webhook secret error:', error);
+    res.status(500).json({ error: 'Failed to revoke previous webhook secret', details: error.message });
+  }
+});
+
+// ==============================
+// Remove the webhook secret override (fall back to the app's API secret)
+// ==============================
+router.delete('/webhook-secret', authenticateToken, requireRole('admin'), async (req: AuthRequest, res: Response) => {
+  try {
+    if (!req.tenantId) {
+      return res.status(403).json({ error: 'Tenant access required' });
+    }
+
+    await prisma.tenant.update({
+      where: { id: req.tenantId },
+      data: { webhookSecret: null, webhookSecretPrevious: null },
+    });
+
+    res.json({ message: 'Webhook secret override removed' });
+  } catch (error: any) {
+    console.error('Remove webhook secret error:', error);
+    res.status(500).json({ error: 'Failed to remove webhook secret', details: error.message });
+  }
+});
+
+export default router;
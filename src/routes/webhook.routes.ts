@@ -1,19 +1,47 @@
 import express from 'express';
+import { Tenant, WebhookDelivery } from '@prisma/client';
 import prisma from '../config/database';
+import { getShopifyApiSecrets } from '../config/shopify';
+import { authenticateToken, requireTenant, requireRole, AuthRequest } from '../middleware/auth.middleware';
+import { getAccessToken } from '../services/credential.service';
 import { IngestionService } from '../services/ingestion.service';
+import {
+  ShopifyCustomer,
+  ShopifyOrder,
+  ShopifyProduct,
+  ShopifyInventoryLevel,
+  ShopifyLocation,
+  ShopifyCheckout,
+  ShopifyShop,
+} from '../services/shopify.service';
 import crypto from 'crypto';
 
 const router = express.Router();
 
-// Verify Shopify webhook signature
-function verifyShopifyWebhook(body: string, signature: string, secret: string): boolean {
-  const hmac = crypto.createHmac('sha256', secret);
-  const hash = hmac.update(body, 'utf8').digest('base64');
-  return hash === signature;
+// Verify a Shopify webhook signature against the raw body bytes, accepting any of
+// the given secrets so deliveries keep verifying during a rotation
+function verifyShopifyWebhook(rawBody: Buffer, signature: string, secrets: string[]): boolean {
+  const expected = Buffer.from(signature, 'base64');
+
+  return secrets.some((secret) => {
+    const digest = crypto.createHmac('sha256', secret).update(rawBody).digest();
+    return digest.length === expected.length && crypto.timingSafeEqual(digest, expected);
+  });
 }
 
-// Webhook endpoint for Shopify events
-router.post('/shopify', express.raw({ type: 'application/json', limit: '10mb' }), async (req, res) => {
+// Secrets a tenant's webhooks may be signed with: the tenant override if set,
+// otherwise the app's API secret key
+function getWebhookSecrets(tenant: Tenant): string[] {
+  if (tenant.webhookSecret) {
+    return [tenant.webhookSecret, tenant.webhookSecretPrevious].filter(
+      (secret): secret is string => !!secret
+    );
+  }
+  return getShopifyApiSecrets();
+}
+
+// Webhook endpoint for Shopify events (body parsed as raw bytes in server.ts)
+router.post('/shopify', async (req, res) => {
   try {
     const signature = req.headers['x-shopify-hmac-sha256'] as string;
     const shopDomain = req.headers['x-shopify-shop-domain'] as string;
@@ -23,6 +51,10 @@ router.post('/shopify', express.raw({ type: 'application/json', limit: '10mb' })
       return res.status(400).json({ error: 'Missing required headers' });
     }
 
+    if (!Buffer.isBuffer(req.body)) {
+      return res.status(400).json({ error: 'Expected a raw JSON body' });
+    }
+
     // Find tenant by shop domain
     const tenant = await prisma.tenant.findUnique({
       where: { shopDomain },
@@ -33,40 +65,54 @@ router.post('/shopify', express.raw({ type: 'application/json', limit: '10mb' })
       return res.status(404).json({ error: 'Tenant not found' });
     }
 
-    // Verify webhook signature (use access token as secret for now)
-    // In production, use a dedicated webhook secret
-    const bodyString = req.body.toString();
-    const isValid = verifyShopifyWebhook(bodyString, signature, tenant.accessToken);
+    const secrets = getWebhookSecrets(tenant);
+    if (secrets.length === 0) {
+      console.error(`No webhook secret configured for shop: ${shopDomain}`);
+      return res.status(500).json({ error: 'Webhook secret not configured' });
+    }
+
+    const isValid = verifyShopifyWebhook(req.body, signature, secrets);
 
     if (!isValid) {
       return res.status(401).json({ error: 'Invalid webhook signature' });
     }
 
-    const data = JSON.parse(bodyString);
+    const bodyString = req.body.toString('utf8');
 
-    // Handle different webhook topics
-    switch (topic) {
-      case 'orders/create':
-      case 'orders/updated':
-        await handleOrderWebhook(tenant.id, tenant.shopDomain, tenant.accessToken, data);
-        break;
+    // Shopify retries deliveries it thinks failed; acknowledge ones we already handled
+    const webhookId = (req.headers['x-shopify-webhook-id'] as string) || null;
+    let delivery = webhookId
+      ? await prisma.webhookDelivery.findUnique({ where: { webhookId } })
+      : null;
 
-      case 'customers/create':
-      case 'customers/update':
-        await handleCustomerWebhook(tenant.id, tenant.shopDomain, tenant.accessToken, data);
-        break;
+    if (delivery && delivery.status !== 'failed') {
+      return res.status(200).json({ received: true, duplicate: true });
+    }
 
-      case 'products/create':
-      case 'products/update':
-        await handleProductWebhook(tenant.id, tenant.shopDomain, tenant.accessToken, data);
-        break;
+    if (!delivery) {
+      try {
+        delivery = await prisma.webhookDelivery.create({
+          data: {
+            tenantId: tenant.id,
+            webhookId,
+            topic,
+            shopDomain,
+            payload: bodyString,
+          },
+        });
+      } catch (error: any) {
+        // A concurrent retry of the same webhook won the insert
+        if (error.code === 'P2002') {
+          return res.status(200).json({ received: true, duplicate: true });
+        }
+        throw error;
+      }
+    }
 
-      case 'orders/paid':
-        await handleOrderWebhook(tenant.id, tenant.shopDomain, tenant.accessToken, data);
-        break;
+    delivery = await processDelivery(delivery, tenant);
 
-      default:
-        console.log(`Unhandled webhook topic: ${topic}`);
+    if (delivery.status === 'failed') {
+      return res.status(500).json({ error: 'Webhook processing failed', details: delivery.error });
     }
 
     res.status(200).json({ received: true });
@@ -76,40 +122,230 @@ router.post('/shopify', express.raw({ type: 'application/json', limit: '10mb' })
   }
 });
 
-async function handleOrderWebhook(tenantId: string, shopDomain: string, accessToken: string, orderData: any) {
+// List webhook deliveries (failed ones by default)
+router.get('/deliveries', authenticateToken, requireTenant, requireRole('admin'), async (req: AuthRequest, res) => {
   try {
-    const ingestionService = new IngestionService(tenantId, shopDomain, accessToken);
-    
-    // Sync just this order
-    const shopifyService = ingestionService['shopifyService'];
-    const shopifyOrder = await shopifyService.getOrder(orderData.id.toString());
-    
-    if (shopifyOrder) {
-      // Ingest this specific order
-      await ingestionService.ingestOrders();
+    if (!req.tenantId) {
+      return res.status(403).json({ error: 'Tenant access required' });
+    }
+
+    const { status = 'failed', topic, limit = 50, offset = 0 } = req.query;
+    const take = Math.min(parseInt(limit as string) || 50, 200);
+    const skip = parseInt(offset as string) || 0;
+
+    const where: any = { tenantId: req.tenantId };
+    if (status !== 'all') {
+      where.status = status as string;
+    }
+    if (topic) {
+      where.topic = topic as string;
     }
-  } catch (error) {
-    console.error('Error handling order webhook:', error);
+
+    const [deliveries, total] = await Promise.all([
+      prisma.webhookDelivery.findMany({
+        where,
+        select: {
+          id: true,
+          webhookId: true,
+          topic: true,
+          shopDomain: true,
+          status: true,
+          error: true,
+          attempts: true,
+          receivedAt: true,
+          processedAt: true,
+        },
+        orderBy: { receivedAt: 'desc' },
+        take,
+        skip,
+      }),
+      prisma.webhookDelivery.count({ where }),
+    ]);
+
+    res.json({
+      deliveries,
+      total,
+      limit: take,
+      offset: skip,
+    });
+  } catch (error: any) {
+    console.error('List webhook deliveries error:', error);
+    res.status(500).json({ error: 'Failed to list webhook deliveries', details: error.message });
   }
-}
+});
 
-async function handleCustomerWebhook(tenantId: string, shopDomain: string, accessToken: string, customerData: any) {
+// Replay a stored delivery through the same topic handlers
+router.post('/deliveries/:id/replay', authenticateToken, requireTenant, requireRole('admin'), async (req: AuthRequest, res) => {
   try {
-    const ingestionService = new IngestionService(tenantId, shopDomain, accessToken);
-    await ingestionService.ingestCustomers();
-  } catch (error) {
-    console.error('Error handling customer webhook:', error);
+    if (!req.tenantId) {
+      return res.status(403).json({ error: 'Tenant access required' });
+    }
+
+    const delivery = await prisma.webhookDelivery.findFirst({
+      where: { id: req.params.id, tenantId: req.tenantId },
+      include: { tenant: true },
+    });
+
+    if (!delivery) {
+      return res.status(404).json({ error: 'Webhook delivery not found' });
+    }
+
+    const { tenant, ...stored } = delivery;
+    const { payload, ...replayed } = await processDelivery(stored, tenant);
+
+    res.json({
+      message: replayed.status === 'failed' ? 'Webhook replay failed' : 'Webhook replayed successfully',
+      delivery: replayed,
+    });
+  } catch (error: any) {
+    console.error('Webhook replay error:', error);
+    res.status(500).json({ error: 'Failed to replay webhook', details: error.message });
   }
-}
+});
 
-async function handleProductWebhook(tenantId: string, shopDomain: string, accessToken: string, productData: any) {
+// Run a stored delivery through its topic handler and record the outcome
+async function processDelivery(delivery: WebhookDelivery, tenant: Tenant): Promise<WebhookDelivery> {
   try {
-    const ingestionService = new IngestionService(tenantId, shopDomain, accessToken);
-    await ingestionService.ingestProducts();
-  } catch (error) {
-    console.error('Error handling product webhook:', error);
+    const data = JSON.parse(delivery.payload);
+    const handled = await dispatchWebhook(tenant, delivery.topic, data);
+
+    return await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: handled ? 'processed' : 'ignored',
+        error: null,
+        attempts: { increment: 1 },
+        processedAt: new Date(),
+      },
+    });
+  } catch (error: any) {
+    console.error(`Error handling ${delivery.topic} webhook:`, error);
+
+    return await prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: 'failed',
+        error: error.message || String(error),
+        attempts: { increment: 1 },
+        processedAt: new Date(),
+      },
+    });
+  }
+}
+
+// Route a webhook payload to its topic handler; returns false for topics we don't handle
+async function dispatchWebhook(tenant: Tenant, topic: string, data: any): Promise<boolean> {
+  const accessToken = await getAccessToken(tenant);
+
+  switch (topic) {
+    case 'orders/create':
+    case 'orders/updated':
+    case 'orders/paid':
+    case 'orders/cancelled':
+      await handleOrderWebhook(tenant.id, tenant.shopDomain, accessToken, data);
+      return true;
+
+    case 'refunds/create':
+      await handleRefundWebhook(tenant.id, tenant.shopDomain, accessToken, data);
+      return true;
+
+    case 'customers/create':
+    case 'customers/update':
+      await handleCustomerWebhook(tenant.id, tenant.shopDomain, accessToken, data);
+      return true;
+
+    case 'customers/delete':
+      await handleCustomerDeleteWebhook(tenant.id, tenant.shopDomain, accessToken, data);
+      return true;
+
+    case 'products/create':
+    case 'products/update':
+      await handleProductWebhook(tenant.id, tenant.shopDomain, accessToken, data);
+      return true;
+
+    case 'products/delete':
+      await handleProductDeleteWebhook(tenant.id, tenant.shopDomain, accessToken, data);
+      return true;
+
+    case 'inventory_levels/update':
+      await handleInventoryLevelWebhook(tenant.id, tenant.shopDomain, accessToken, data);
+      return true;
+
+    case 'locations/create':
+    case 'locations/update':
+      await handleLocationWebhook(tenant.id, tenant.shopDomain, accessToken, data);
+      return true;
+
+    case 'checkouts/create':
+    case 'checkouts/update':
+      await handleCheckoutWebhook(tenant.id, tenant.shopDomain, accessToken, data);
+      return true;
+
+    case 'shop/update':
+      await handleShopWebhook(tenant.id, tenant.shopDomain, accessToken, data);
+      return true;
+
+    default:
+      console.log(`Unhandled webhook topic: ${topic}`);
+      return false;
   }
 }
 
+// Webhook payloads use the same shape as the REST Admin API, so each handler
+// upserts the delivered record directly instead of re-syncing the store.
+// Errors propagate so the delivery is marked failed and can be replayed.
+async function handleOrderWebhook(tenantId: string, shopDomain: string, accessToken: string, orderData: ShopifyOrder) {
+  const ingestionService = new IngestionService(tenantId, shopDomain, accessToken);
+  await ingestionService.upsertOrder(orderData);
+}
+
+async function handleCustomerWebhook(tenantId: string, shopDomain: string, accessToken: string, customerData: ShopifyCustomer) {
+  const ingestionService = new IngestionService(tenantId, shopDomain, accessToken);
+  await ingestionService.upsertCustomer(customerData);
+}
+
+async function handleProductWebhook(tenantId: string, shopDomain: string, accessToken: string, productData: ShopifyProduct) {
+  const ingestionService = new IngestionService(tenantId, shopDomain, accessToken);
+  await ingestionService.upsertProduct(productData);
+}
+
+async function handleInventoryLevelWebhook(tenantId: string, shopDomain: string, accessToken: string, levelData: ShopifyInventoryLevel) {
+  const ingestionService = new IngestionService(tenantId, shopDomain, accessToken);
+  await ingestionService.upsertInventoryLevel(levelData);
+}
+
+async function handleLocationWebhook(tenantId: string, shopDomain: string, accessToken: string, locationData: ShopifyLocation) {
+  const ingestionService = new IngestionService(tenantId, shopDomain, accessToken);
+  await ingestionService.upsertLocation(locationData);
+}
+
+async function handleCheckoutWebhook(tenantId: string, shopDomain: string, accessToken: string, checkoutData: ShopifyCheckout) {
+  const ingestionService = new IngestionService(tenantId, shopDomain, accessToken);
+  await ingestionService.upsertCheckout(checkoutData);
+}
+
+async function handleShopWebhook(tenantId: string, shopDomain: string, accessToken: string, shopData: ShopifyShop) {
+  const ingestionService = new IngestionService(tenantId, shopDomain, accessToken);
+  await ingestionService.updateShopSettings(shopData);
+}
+
+// Refund payloads don't carry the order's new financial status, so re-fetch that one
+// order; its refunds array brings the new refund in with it
+async function handleRefundWebhook(tenantId: string, shopDomain: string, accessToken: string, refundData: any) {
+  const ingestionService = new IngestionService(tenantId, shopDomain, accessToken);
+  await ingestionService.refreshOrder(refundData.order_id.toString());
+}
+
+// Delete payloads only carry the id
+async function handleCustomerDeleteWebhook(tenantId: string, shopDomain: string, accessToken: string, customerData: { id: string }) {
+  const ingestionService = new IngestionService(tenantId, shopDomain, accessToken);
+  await ingestionService.markCustomerDeleted(customerData.id.toString());
+}
+
+async function handleProductDeleteWebhook(tenantId: string, shopDomain: string, accessToken: string, productData: { id: string }) {
+  const ingestionService = new IngestionService(tenantId, shopDomain, accessToken);
+  await ingestionService.markProductDeleted(productData.id.toString());
+}
+
 export default router;
 
@@ -1,6 +1,6 @@
 import cron from 'node-cron';
 import prisma from '../config/database';
-import { IngestionService } from '../services/ingestion.service';
+import { SyncJobService, serializeSyncJob } from '../services/sync-job.service';
 
 // Schedule data sync every 6 hours (configurable via env)
 const SYNC_INTERVAL = process.env.SYNC_INTERVAL || '0 */6 * * *'; // Every 6 hours
@@ -19,15 +19,22 @@ export function scheduleDataSync(): void {
         try {
           console.log(`Syncing data for tenant: ${tenant.shopDomain}`);
 
-          const ingestionService = new IngestionService(
-            tenant.id,
-            tenant.shopDomain,
-            tenant.accessToken
-          );
+          // Run tenants one after another, recording each run as a sync job
+          const syncJobService = new SyncJobService(tenant.id);
+          const { job, created } = await syncJobService.enqueue('all', 'scheduled');
 
-          const result = await ingestionService.ingestAll();
+          if (!created) {
+            console.log(`⏭️  Skipping ${tenant.shopDomain}: sync job ${job.id} already ${job.status}`);
+            continue;
+          }
 
-          console.log(`✅ Sync completed for ${tenant.shopDomain}:`, result);
+          const finished = await syncJobService.run(job.id);
+
+          if (finished.status === 'completed') {
+            console.log(`✅ Sync completed for ${tenant.shopDomain}:`, serializeSyncJob(finished).result);
+          } else {
+            console.error(`❌ Sync failed for ${tenant.shopDomain}:`, finished.error);
+          }
         } catch (error: any) {
           console.error(`❌ Sync failed for ${tenant.shopDomain}:`, error.message);
         }
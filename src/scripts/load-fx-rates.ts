@@ -0,0 +1,42 @@
+import dotenv from 'dotenv';
+import { readFileSync } from 'fs';
+import prisma from '../config/database';
+import { FxService, MAX_RATES_PER_REQUEST, parseFxRateFile, validateFxRates } from '../services/fx.service';
+
+dotenv.config();
+
+// Load daily exchange rates for a shop from a CSV (date,base,quote,rate) or JSON file:
+//   npm run fx:load -- mystore.myshopify.com rates.csv
+async function main() {
+  const [shopDomain, file] = process.argv.slice(2);
+  if (!shopDomain || !file) {
+    throw new Error('Usage: npm run fx:load -- <shop domain> <rates file>');
+  }
+
+  const tenant = await prisma.tenant.findUnique({ where: { shopDomain } });
+  if (!tenant) {
+    throw new Error(`No tenant for ${shopDomain}`);
+  }
+
+  const rates = parseFxRateFile(readFileSync(file, 'utf8'));
+  const fxService = new FxService(tenant.id);
+
+  let loaded = 0;
+  for (let i = 0; i < rates.length; i += MAX_RATES_PER_REQUEST) {
+    const batch = rates.slice(i, i + MAX_RATES_PER_REQUEST);
+    const problem = validateFxRates(batch);
+    if (problem) {
+      throw new Error(`Rows ${i + 1}-${i + batch.length}: ${problem}`);
+    }
+    loaded += await fxService.upsert(batch);
+  }
+
+  console.log(`💱 Loaded ${loaded} FX rates for ${shopDomain}`);
+}
+
+main()
+  .catch((error) => {
+    console.error('Failed to load FX rates:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
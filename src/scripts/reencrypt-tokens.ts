@@ -0,0 +1,22 @@
+import dotenv from 'dotenv';
+import prisma from '../config/database';
+import { reencryptAccessTokens } from '../services/credential.service';
+
+dotenv.config();
+
+// Re-encrypt every tenant's Shopify access token under TOKEN_ENCRYPTION_KEY_ID.
+// Rotate by adding the new key to TOKEN_ENCRYPTION_KEYS, pointing TOKEN_ENCRYPTION_KEY_ID
+// at it, running this, and only then removing the old key.
+async function main() {
+  const result = await reencryptAccessTokens();
+  console.log(
+    `🔐 Re-encrypted access tokens: ${result.rewrapped} re-wrapped, ${result.encrypted} plaintext encrypted, ${result.current} already current`
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error('Failed to re-encrypt access tokens:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
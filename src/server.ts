@@ -2,13 +2,29 @@ import express from 'express';
 import cors from 'cors';
 import dotenv from 'dotenv';
 import tenantRoutes from './routes/tenant.routes';
+import memberRoutes from './routes/member.routes';
+import apiKeyRoutes from './routes/api-key.routes';
+import publishableKeyRoutes from './routes/publishable-key.routes';
+import fxRateRoutes from './routes/fx-rate.routes';
 import ingestionRoutes from './routes/ingestion.routes';
 import analyticsRoutes from './routes/analytics.routes';
 import webhookRoutes from './routes/webhook.routes';
+import shopifyRoutes from './routes/shopify.routes';
+import collectRoutes from './routes/collect.routes';
 import { scheduleDataSync } from './scheduler/sync.scheduler';
+import { failInterruptedSyncJobs } from './services/sync-job.service';
+import { getJwtConfig } from './config/auth';
 
 dotenv.config();
 
+// Refuse to start without a real JWT secret, rather than signing tokens with a guessable one
+try {
+  getJwtConfig();
+} catch (error: any) {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
+
 const app = express();
 const PORT = process.env.PORT || 3001;
 
@@ -40,7 +56,13 @@ const corsOptions = {
   credentials: true,
   optionsSuccessStatus: 200
 };
+// Storefront event collection answers CORS per publishable key, so it sits ahead of the app-wide policy
+app.use('/api/collect', collectRoutes);
 app.use(cors(corsOptions));
+// Shopify webhooks are verified against the exact raw bytes, so parse them before express.json()
+app.use('/api/webhooks/shopify', express.raw({ type: 'application/json', limit: '10mb' }));
+// A batch of daily FX rates can run to a few thousand rows
+app.use('/api/tenant/fx-rates', express.json({ limit: '5mb' }));
 app.use(express.json());
 app.use(express.urlencoded({ extended: true }));
 
@@ -51,9 +73,23 @@ app.get('/health', (req, res) => {
 
 // Routes
 app.use('/api/tenant', tenantRoutes);
+app.use('/api/tenant', memberRoutes);
+app.use('/api/tenant', apiKeyRoutes);
+app.use('/api/tenant', publishableKeyRoutes);
+app.use('/api/tenant', fxRateRoutes);
 app.use('/api/ingestion', ingestionRoutes);
 app.use('/api/analytics', analyticsRoutes);
 app.use('/api/webhooks', webhookRoutes);
+app.use('/api/shopify', shopifyRoutes);
+
+// Jobs that were running when their process stopped can never finish
+failInterruptedSyncJobs()
+  .then((count) => {
+    if (count > 0) {
+      console.log(`⚠️  Marked ${count} interrupted sync job(s) as failed`);
+    }
+  })
+  .catch((error) => console.error('Failed to clean up interrupted sync jobs:', error));
 
 // Start scheduler for automatic data sync
 scheduleDataSync();
@@ -0,0 +1,91 @@
+import crypto from 'crypto';
+import { ApiKey } from '@prisma/client';
+import prisma from '../config/database';
+
+// Scopes an API key can be granted
+export const API_KEY_SCOPES = ['events:write', 'analytics:read'] as const;
+export type ApiKeyScope = (typeof API_KEY_SCOPES)[number];
+
+// Every key starts with this, so authenticateToken can tell keys from JWTs
+export const API_KEY_PREFIX = 'xak_';
+
+// lastUsedAt is only written when older than this, to keep busy keys off the write path
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+const hashKey = (key: string) => crypto.createHash('sha256').update(key).digest('hex');
+
+export class ApiKeyService {
+  private tenantId: string;
+
+  constructor(tenantId: string) {
+    this.tenantId = tenantId;
+  }
+
+  // Create a key; the plaintext key is only ever returned here
+  async create(
+    name: string,
+    scopes: ApiKeyScope[],
+    createdById?: string
+  ): Promise<{ apiKey: ApiKey; key: string }> {
+    const key = `${API_KEY_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        tenantId: this.tenantId,
+        name,
+        prefix: key.slice(0, API_KEY_PREFIX.length + 8),
+        keyHash: hashKey(key),
+        scopes: JSON.stringify(scopes),
+        createdById,
+      },
+    });
+
+    return { apiKey, key };
+  }
+
+  // List this tenant's keys, including revoked ones, newest first
+  async list(): Promise<ApiKey[]> {
+    return prisma.apiKey.findMany({
+      where: { tenantId: this.tenantId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  // Revoke a key; false if it doesn't exist or was already revoked
+  async revoke(apiKeyId: string): Promise<boolean> {
+    const { count } = await prisma.apiKey.updateMany({
+      where: { id: apiKeyId, tenantId: this.tenantId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return count === 1;
+  }
+}
+
+// Look up an active key by its plaintext value and record that it was used
+export async function authenticateApiKey(key: string): Promise<ApiKey | null> {
+  const apiKey = await prisma.apiKey.findUnique({
+    where: { keyHash: hashKey(key) },
+  });
+
+  if (!apiKey || apiKey.revokedAt) {
+    return null;
+  }
+
+  if (!apiKey.lastUsedAt || Date.now() - apiKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await prisma.apiKey.update({
+      where: { id: apiKey.id },
+      data: { lastUsedAt: new Date() },
+    });
+  }
+
+  return apiKey;
+}
+
+// Shape a key for API responses: scopes expanded, hash left out
+export function serializeApiKey(apiKey: ApiKey) {
+  const { keyHash, ...rest } = apiKey;
+  return {
+    ...rest,
+    scopes: JSON.parse(apiKey.scopes) as ApiKeyScope[],
+  };
+}
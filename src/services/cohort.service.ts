@@ -0,0 +1,197 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { DateBucketer, WEEKDAYS, Weekday } from './date-buckets';
+
+export const COHORT_GRANULARITIES = ['month', 'week'] as const;
+export type CohortGranularity = (typeof COHORT_GRANULARITIES)[number];
+
+export const COHORT_METRICS = ['retention', 'revenue'] as const;
+export type CohortMetric = (typeof COHORT_METRICS)[number];
+
+export interface CohortOptions {
+  granularity: CohortGranularity;
+  metric: CohortMetric;
+  timezone: string; // Shop's IANA timezone; cohorts and periods follow its calendar
+  weekStartsOn?: Weekday; // Default sunday
+  periods: number; // How many periods after acquisition to report
+  startDate?: Date; // Acquisition (first order) range; endBefore is exclusive
+  endBefore?: Date;
+  firstProductId?: string; // Only customers whose first order included this product
+  includeCancelled?: boolean;
+  includeDeleted?: boolean;
+}
+
+export interface CohortPeriod {
+  period: number; // 0 is the acquisition period
+  customers: number; // Cohort customers who ordered in this period
+  orders: number;
+  revenue: number; // Net of refunds against these orders
+  retentionRate: number; // % of the cohort
+  revenuePerCustomer: number; // Revenue divided by the whole cohort's size
+  value: number; // retentionRate or revenuePerCustomer, depending on the metric
+}
+
+export interface Cohort {
+  cohort: string; // First day of the acquisition month or week, in the shop's timezone
+  size: number;
+  periods: CohortPeriod[];
+}
+
+interface CohortRow {
+  cohort: Date;
+  period: number;
+  customers: number;
+  orders: number;
+  revenue: Prisma.Decimal | null;
+}
+
+export class CohortService {
+  private tenantId: string;
+
+  constructor(tenantId: string) {
+    this.tenantId = tenantId;
+  }
+
+  // Group customers by the month or week of their first order and aggregate their
+  // orders in each later period. Everything is aggregated in Postgres; Node only
+  // receives one row per cohort and period.
+  async retention(options: CohortOptions): Promise<Cohort[]> {
+    const unit = options.granularity;
+
+    // date_trunc weeks start on Monday; shift so they start on the requested day
+    const weekShift = (WEEKDAYS.indexOf(options.weekStartsOn || 'sunday') + 6) % 7;
+    const cohortExpr =
+      unit === 'month'
+        ? Prisma.sql`date_trunc('month', f."firstLocalAt")`
+        : Prisma.sql`date_trunc('week', f."firstLocalAt" - make_interval(days => ${weekShift}::int))
+            + make_interval(days => ${weekShift}::int)`;
+
+    // Periods are counted on the shop's wall clock, so DST changes don't shift them
+    const periodExpr =
+      unit === 'month'
+        ? Prisma.sql`((EXTRACT(YEAR FROM s."localAt") - EXTRACT(YEAR FROM c.cohort)) * 12
+            + EXTRACT(MONTH FROM s."localAt") - EXTRACT(MONTH FROM c.cohort))::int`
+        : Prisma.sql`FLOOR(EXTRACT(EPOCH FROM s."localAt" - c.cohort) / 604800)::int`;
+
+    const orderFilters = [Prisma.sql`o."tenantId" = ${this.tenantId}`, Prisma.sql`o."shopifyCreatedAt" IS NOT NULL`];
+    if (!options.includeCancelled) {
+      orderFilters.push(Prisma.sql`o."cancelledAt" IS NULL`);
+    }
+    if (!options.includeDeleted) {
+      orderFilters.push(Prisma.sql`cu."deletedAt" IS NULL`);
+    }
+
+    const cohortFilters = [Prisma.sql`TRUE`];
+    if (options.startDate) {
+      cohortFilters.push(Prisma.sql`f."firstOrderedAt" >= ${options.startDate}`);
+    }
+    if (options.endBefore) {
+      cohortFilters.push(Prisma.sql`f."firstOrderedAt" < ${options.endBefore}`);
+    }
+    if (options.firstProductId) {
+      cohortFilters.push(Prisma.sql`EXISTS (
+        SELECT 1 FROM "order_items" i
+        WHERE i."orderId" = f."firstOrderId" AND i."productId" = ${options.firstProductId}
+      )`);
+    }
+
+    const rows = await prisma.$queryRaw<CohortRow[]>`
+      WITH scoped AS (
+        SELECT o.id, o."customerId", o."shopifyCreatedAt" AS "orderedAt",
+               o."shopifyCreatedAt" AT TIME ZONE 'UTC' AT TIME ZONE ${options.timezone} AS "localAt",
+               o."totalPrice" - COALESCE(r.refunded, 0) AS revenue
+        FROM "orders" o
+        JOIN "customers" cu ON cu.id = o."customerId"
+        LEFT JOIN (
+          SELECT "orderId", SUM(amount) AS refunded
+          FROM "refunds"
+          WHERE "tenantId" = ${this.tenantId}
+          GROUP BY "orderId"
+        ) r ON r."orderId" = o.id
+        WHERE ${Prisma.join(orderFilters, ' AND ')}
+      ),
+      firsts AS (
+        SELECT DISTINCT ON ("customerId") "customerId", id AS "firstOrderId",
+               "orderedAt" AS "firstOrderedAt", "localAt" AS "firstLocalAt"
+        FROM scoped
+        ORDER BY "customerId", "orderedAt", id
+      ),
+      cohorts AS (
+        SELECT f."customerId", ${cohortExpr} AS cohort
+        FROM firsts f
+        WHERE ${Prisma.join(cohortFilters, ' AND ')}
+      ),
+      activity AS (
+        SELECT c.cohort, ${periodExpr} AS period, s."customerId", s.revenue
+        FROM scoped s
+        JOIN cohorts c ON c."customerId" = s."customerId"
+      )
+      SELECT cohort, period,
+             COUNT(DISTINCT "customerId")::int AS customers,
+             COUNT(*)::int AS orders,
+             SUM(revenue) AS revenue
+      FROM activity
+      WHERE period <= ${options.periods}
+      GROUP BY cohort, period
+      ORDER BY cohort, period
+    `;
+
+    const cohorts = new Map<string, Cohort>();
+
+    for (const row of rows) {
+      const key = row.cohort.toISOString().split('T')[0];
+      let cohort = cohorts.get(key);
+      if (!cohort) {
+        // Every cohort member orders in period 0, so its count is the cohort size
+        cohort = { cohort: key, size: row.customers, periods: [] };
+        cohorts.set(key, cohort);
+      }
+
+      const revenue = Number(row.revenue || 0);
+      const retentionRate = cohort.size > 0 ? (row.customers / cohort.size) * 100 : 0;
+      const revenuePerCustomer = cohort.size > 0 ? revenue / cohort.size : 0;
+
+      cohort.periods.push({
+        period: row.period,
+        customers: row.customers,
+        orders: row.orders,
+        revenue,
+        retentionRate,
+        revenuePerCustomer,
+        value: options.metric === 'revenue' ? revenuePerCustomer : retentionRate,
+      });
+    }
+
+    // Zero-fill the periods nobody ordered in, up to the last one that has happened
+    const local = new DateBucketer({ unit: 'day', timezone: options.timezone }).localTime(new Date());
+    const today = new Date(Date.UTC(local.year, local.month - 1, local.day));
+    for (const cohort of cohorts.values()) {
+      const elapsed = Math.min(options.periods, periodsBetween(new Date(cohort.cohort), today, unit));
+      const byPeriod = new Map(cohort.periods.map((p) => [p.period, p]));
+      cohort.periods = [];
+      for (let period = 0; period <= elapsed; period++) {
+        cohort.periods.push(
+          byPeriod.get(period) || {
+            period,
+            customers: 0,
+            orders: 0,
+            revenue: 0,
+            retentionRate: 0,
+            revenuePerCustomer: 0,
+            value: 0,
+          }
+        );
+      }
+    }
+
+    return Array.from(cohorts.values());
+  }
+}
+
+// Whole months or weeks from a cohort's start to a date
+function periodsBetween(start: Date, end: Date, unit: CohortGranularity): number {
+  if (unit === 'month') {
+    return (end.getUTCFullYear() - start.getUTCFullYear()) * 12 + end.getUTCMonth() - start.getUTCMonth();
+  }
+  return Math.floor((end.getTime() - start.getTime()) / (7 * 24 * 60 * 60 * 1000));
+}
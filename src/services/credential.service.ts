@@ -0,0 +1,130 @@
+import crypto from 'crypto';
+import { Tenant } from '@prisma/client';
+import prisma from '../config/database';
+import { getTokenEncryptionKeys } from '../config/encryption';
+
+// Envelope encryption for Shopify access tokens: each token is sealed with its own
+// random data key, and the data key is sealed with an application key whose id is
+// stored beside it. Rotating the application key only re-wraps the data keys.
+// This module is the only place that sees a decrypted token.
+
+export type TenantCredential = Pick<Tenant, 'id' | 'accessToken' | 'accessTokenKeyId' | 'accessTokenDataKey'>;
+
+export interface EncryptedAccessToken {
+  accessToken: string;
+  accessTokenKeyId: string;
+  accessTokenDataKey: string;
+}
+
+const ALGORITHM = 'aes-256-gcm';
+
+// AES-256-GCM, packed as base64(iv | auth tag | ciphertext)
+function seal(key: Buffer, plaintext: Buffer, aad?: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  if (aad) cipher.setAAD(Buffer.from(aad, 'utf8'));
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return Buffer.concat([iv, cipher.getAuthTag(), ciphertext]).toString('base64');
+}
+
+function unseal(key: Buffer, sealed: string, aad?: string): Buffer {
+  const data = Buffer.from(sealed, 'base64');
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, data.subarray(0, 12));
+  if (aad) decipher.setAAD(Buffer.from(aad, 'utf8'));
+  decipher.setAuthTag(data.subarray(12, 28));
+  return Buffer.concat([decipher.update(data.subarray(28)), decipher.final()]);
+}
+
+function applicationKey(keyId: string): Buffer {
+  const key = getTokenEncryptionKeys().keys.get(keyId);
+  if (!key) {
+    throw new Error(`Token encryption key "${keyId}" is not configured in TOKEN_ENCRYPTION_KEYS`);
+  }
+  return key;
+}
+
+function activeKeyId(): string {
+  const { activeKeyId } = getTokenEncryptionKeys();
+  if (!activeKeyId) {
+    throw new Error('TOKEN_ENCRYPTION_KEYS must be set to store Shopify access tokens');
+  }
+  return activeKeyId;
+}
+
+// Encrypt a token under the active application key; spread the result into a tenant write
+export function encryptAccessToken(plaintext: string): EncryptedAccessToken {
+  const keyId = activeKeyId();
+  const dataKey = crypto.randomBytes(32);
+
+  return {
+    accessToken: seal(dataKey, Buffer.from(plaintext, 'utf8')),
+    accessTokenKeyId: keyId,
+    accessTokenDataKey: seal(applicationKey(keyId), dataKey, keyId),
+  };
+}
+
+// Decrypt a tenant's Shopify access token. Rows written before encryption hold
+// the token in plaintext with no key id; they are encrypted on first read.
+export async function getAccessToken(tenant: TenantCredential): Promise<string> {
+  if (!tenant.accessTokenKeyId || !tenant.accessTokenDataKey) {
+    if (getTokenEncryptionKeys().activeKeyId) {
+      await prisma.tenant.updateMany({
+        where: { id: tenant.id, accessTokenKeyId: null },
+        data: encryptAccessToken(tenant.accessToken),
+      });
+    }
+    return tenant.accessToken;
+  }
+
+  const dataKey = unseal(
+    applicationKey(tenant.accessTokenKeyId),
+    tenant.accessTokenDataKey,
+    tenant.accessTokenKeyId
+  );
+  return unseal(dataKey, tenant.accessToken).toString('utf8');
+}
+
+// Bring every tenant under the active application key: re-wrap data keys sealed
+// with an older key and encrypt any plaintext tokens. Safe to run repeatedly.
+export async function reencryptAccessTokens(): Promise<{ rewrapped: number; encrypted: number; current: number }> {
+  const keyId = activeKeyId();
+  const result = { rewrapped: 0, encrypted: 0, current: 0 };
+
+  const tenants = await prisma.tenant.findMany({
+    select: { id: true, accessToken: true, accessTokenKeyId: true, accessTokenDataKey: true },
+  });
+
+  for (const tenant of tenants) {
+    if (tenant.accessTokenKeyId === keyId) {
+      result.current++;
+      continue;
+    }
+
+    if (!tenant.accessTokenKeyId || !tenant.accessTokenDataKey) {
+      await prisma.tenant.updateMany({
+        where: { id: tenant.id, accessTokenKeyId: null },
+        data: encryptAccessToken(tenant.accessToken),
+      });
+      result.encrypted++;
+      continue;
+    }
+
+    const dataKey = unseal(
+      applicationKey(tenant.accessTokenKeyId),
+      tenant.accessTokenDataKey,
+      tenant.accessTokenKeyId
+    );
+
+    // Only the data key changes; skip the row if a new token replaced it meanwhile
+    await prisma.tenant.updateMany({
+      where: { id: tenant.id, accessTokenDataKey: tenant.accessTokenDataKey },
+      data: {
+        accessTokenKeyId: keyId,
+        accessTokenDataKey: seal(applicationKey(keyId), dataKey, keyId),
+      },
+    });
+    result.rewrapped++;
+  }
+
+  return result;
+}
@@ -0,0 +1,82 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { CurrencyConverter } from './fx.service';
+
+interface SpendRow {
+  customerId: string;
+  currency: string | null;
+  at: Date;
+  spent: Prisma.Decimal;
+}
+
+export interface RankOptions {
+  timezone: string; // The shop's, which conversion dates are in
+  limit: number;
+  scope: Prisma.CustomerWhereInput; // Customers that may be ranked
+  includeCancelled?: boolean;
+}
+
+// Customers are checked against the scope this many at a time, biggest spenders first
+const SCOPE_BATCH_SIZE = 500;
+
+export class CustomerSpendService {
+  private tenantId: string;
+
+  constructor(tenantId: string) {
+    this.tenantId = tenantId;
+  }
+
+  // Customers ranked by order totals net of refunds, converted into one currency. Sums are
+  // taken in SQL per customer, currency and shop-local day, so each converts at one rate.
+  async topConverted(
+    converter: CurrencyConverter,
+    options: RankOptions
+  ): Promise<Array<{ customerId: string; spent: number }>> {
+    const orderedAt = Prisma.sql`COALESCE(o."shopifyCreatedAt", o."createdAt")`;
+    const filters = [Prisma.sql`o."tenantId" = ${this.tenantId}`, Prisma.sql`o."customerId" IS NOT NULL`];
+    if (!options.includeCancelled) {
+      filters.push(Prisma.sql`o."cancelledAt" IS NULL`);
+    }
+
+    const rows = await prisma.$queryRaw<SpendRow[]>`
+      SELECT o."customerId", o.currency, MIN(${orderedAt}) AS at,
+             SUM(o."totalPrice" - COALESCE(r.refunded, 0)) AS spent
+      FROM "orders" o
+      LEFT JOIN (
+        SELECT "orderId", SUM(amount) AS refunded
+        FROM "refunds"
+        WHERE "tenantId" = ${this.tenantId}
+        GROUP BY "orderId"
+      ) r ON r."orderId" = o.id
+      WHERE ${Prisma.join(filters, ' AND ')}
+      GROUP BY o."customerId", o.currency, (${orderedAt} AT TIME ZONE 'UTC' AT TIME ZONE ${options.timezone})::date
+    `;
+
+    const spent = new Map<string, number>();
+    for (const row of rows) {
+      const amount = converter.convert(row.spent, row.currency, row.at);
+      spent.set(row.customerId, (spent.get(row.customerId) || 0) + amount);
+    }
+    converter.assertComplete();
+
+    const ranked = Array.from(spent.entries()).sort((a, b) => b[1] - a[1]);
+    const top: Array<{ customerId: string; spent: number }> = [];
+
+    for (let i = 0; i < ranked.length && top.length < options.limit; i += SCOPE_BATCH_SIZE) {
+      const batch = ranked.slice(i, i + SCOPE_BATCH_SIZE);
+      const inScope = await prisma.customer.findMany({
+        where: { AND: [options.scope, { id: { in: batch.map(([customerId]) => customerId) } }] },
+        select: { id: true },
+      });
+      const ids = new Set(inScope.map((customer) => customer.id));
+
+      for (const [customerId, amount] of batch) {
+        if (ids.has(customerId) && top.length < options.limit) {
+          top.push({ customerId, spent: amount });
+        }
+      }
+    }
+
+    return top;
+  }
+}
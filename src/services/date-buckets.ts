@@ -0,0 +1,237 @@
+// Calendar bucketing of timestamps in a shop's IANA timezone, for trend endpoints
+
+export const BUCKET_UNITS = ['hour', 'day', 'week', 'month'] as const;
+export type BucketUnit = (typeof BUCKET_UNITS)[number];
+
+export const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'] as const;
+export type Weekday = (typeof WEEKDAYS)[number];
+
+// More buckets than this is almost certainly a mistake, e.g. hours over several years
+export const MAX_BUCKETS = 5000;
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export interface BucketOptions {
+  unit: BucketUnit;
+  timezone: string;
+  weekStartsOn?: Weekday; // Default sunday
+  start?: Date; // Range fill() zero-fills; defaults to the earliest and latest keyed instants
+  end?: Date;
+}
+
+interface LocalTime {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatterFor(timezone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    });
+    formatters.set(timezone, formatter);
+  }
+  return formatter;
+}
+
+// Whether Intl knows the timezone
+export function isValidTimezone(timezone: string): boolean {
+  try {
+    formatterFor(timezone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Format a calendar date held in a Date's UTC fields
+const formatDay = (calendarDay: number) => new Date(calendarDay).toISOString().split('T')[0];
+
+export class DateBucketer {
+  readonly unit: BucketUnit;
+  readonly timezone: string;
+  private weekStart: number;
+  private start?: Date;
+  private end?: Date;
+  private earliest?: number;
+  private latest?: number;
+
+  constructor(options: BucketOptions) {
+    this.unit = options.unit;
+    this.timezone = options.timezone;
+    this.weekStart = WEEKDAYS.indexOf(options.weekStartsOn || 'sunday');
+    this.start = options.start;
+    this.end = options.end;
+  }
+
+  // Wall-clock time of an instant in the shop's timezone
+  localTime(date: Date): LocalTime {
+    const parts: Record<string, number> = {};
+    for (const part of formatterFor(this.timezone).formatToParts(date)) {
+      if (part.type !== 'literal') {
+        parts[part.type] = parseInt(part.value);
+      }
+    }
+    return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute };
+  }
+
+  // Bucket key of an instant: "2025-01-31T14:00", "2025-01-31", the week's first day, or "2025-01".
+  // Keyed instants also widen the range that fill() zero-fills when no bounds are given.
+  key(date: Date): string {
+    const time = date.getTime();
+    this.earliest = this.earliest === undefined ? time : Math.min(this.earliest, time);
+    this.latest = this.latest === undefined ? time : Math.max(this.latest, time);
+
+    if (this.unit === 'hour') {
+      return this.formatHour(date);
+    }
+
+    const local = this.localTime(date);
+    if (this.unit === 'month') {
+      return `${local.year}-${pad(local.month)}`;
+    }
+    return formatDay(this.bucketStart(local));
+  }
+
+  // Instant of local midnight at the start of a "YYYY-MM-DD" date; other values are parsed as-is.
+  // Where midnight falls in a DST gap, the day starts at the first instant after it.
+  parseDate(value: string): Date {
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match) {
+      return new Date(value);
+    }
+    return this.startOfDay(Date.UTC(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3])));
+  }
+
+  // Exclusive upper bound for an end date: the local midnight after a "YYYY-MM-DD" date,
+  // so the whole day is included, or just after any other instant
+  parseEndDate(value: string): Date {
+    const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    if (!match) {
+      return new Date(new Date(value).getTime() + 1);
+    }
+    return this.startOfDay(Date.UTC(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]) + 1));
+  }
+
+  // Every bucket key from the bucket containing start to the one containing end
+  range(start: Date, end: Date): string[] {
+    const keys: string[] = [];
+    const add = (key: string) => {
+      if (keys[keys.length - 1] !== key) {
+        keys.push(key);
+      }
+      if (keys.length > MAX_BUCKETS) {
+        throw new RangeError(`More than ${MAX_BUCKETS} ${this.unit} buckets; narrow the date range`);
+      }
+    };
+
+    if (end < start) {
+      return keys;
+    }
+
+    if (this.unit === 'hour') {
+      // Step through instants: DST gaps drop an hour, overlaps repeat one (deduplicated)
+      for (let time = start.getTime(); time <= end.getTime(); time += HOUR_MS) {
+        add(this.formatHour(new Date(time)));
+      }
+      add(this.formatHour(end));
+      return keys;
+    }
+
+    const last = this.bucketStart(this.localTime(end));
+    let day = this.bucketStart(this.localTime(start));
+    while (day <= last) {
+      add(this.unit === 'month' ? formatDay(day).substring(0, 7) : formatDay(day));
+      if (this.unit === 'day') {
+        day += DAY_MS;
+      } else if (this.unit === 'week') {
+        day += 7 * DAY_MS;
+      } else {
+        const date = new Date(day);
+        day = Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 1);
+      }
+    }
+    return keys;
+  }
+
+  // Grouped values in bucket order, with an empty value for every bucket nothing fell into
+  fill<T>(grouped: Record<string, T>, empty: () => T): Array<[string, T]> {
+    const from = this.start ?? (this.earliest !== undefined ? new Date(this.earliest) : undefined);
+    const to = this.end ?? (this.latest !== undefined ? new Date(this.latest) : undefined);
+
+    // Keep any keyed values that fell outside explicit bounds
+    const keys = new Set([...(from && to ? this.range(from, to) : []), ...Object.keys(grouped)]);
+
+    return Array.from(keys)
+      .sort()
+      .map((key) => [key, grouped[key] ?? empty()]);
+  }
+
+  // First instant of a calendar day (given as a UTC-fields Date value) in the shop's timezone
+  private startOfDay(target: number): Date {
+    // Guess UTC midnight, then correct by the zone's offset at that guess (twice, across DST)
+    let instant = target;
+    for (let i = 0; i < 2; i++) {
+      const local = this.localTime(new Date(instant));
+      const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute) + (instant % 60000);
+      instant -= asUtc - target;
+    }
+
+    // Midnight skipped by a DST change lands on the previous day: search forward, a minute
+    // at a time, for the first instant that is on the target day
+    if (this.localDay(new Date(instant)) < target) {
+      let before = instant;
+      let after = instant + DAY_MS;
+      while (after - before > 60000) {
+        const mid = before + Math.floor((after - before) / 120000) * 60000;
+        if (this.localDay(new Date(mid)) < target) {
+          before = mid;
+        } else {
+          after = mid;
+        }
+      }
+      instant = after;
+    }
+
+    return new Date(instant);
+  }
+
+  // Calendar day of an instant in the shop's timezone, as a UTC-fields Date value
+  private localDay(date: Date): number {
+    const local = this.localTime(date);
+    return Date.UTC(local.year, local.month - 1, local.day);
+  }
+
+  private formatHour(date: Date): string {
+    const local = this.localTime(date);
+    return `${local.year}-${pad(local.month)}-${pad(local.day)}T${pad(local.hour)}:00`;
+  }
+
+  // First calendar day of the bucket holding a local time, as a UTC-fields Date value
+  private bucketStart(local: LocalTime): number {
+    const day = Date.UTC(local.year, local.month - 1, local.day);
+    if (this.unit === 'week') {
+      const offset = (new Date(day).getUTCDay() - this.weekStart + 7) % 7;
+      return day - offset * DAY_MS;
+    }
+    if (this.unit === 'month') {
+      return Date.UTC(local.year, local.month - 1, 1);
+    }
+    return day;
+  }
+}
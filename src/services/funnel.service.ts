@@ -0,0 +1,205 @@
+import { Funnel, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+
+// Funnel steps that come from orders rather than the Event table. Anything else is an event type.
+export const ORDER_MILESTONES = ['order_placed', 'order_paid'] as const;
+
+// Financial statuses that mean an order was paid, even if later refunded
+const PAID_STATUSES = ['paid', 'partially_refunded', 'refunded'];
+
+export interface FunnelDefinition {
+  name: string;
+  steps: string[];
+  conversionWindowHours: number;
+}
+
+export interface FunnelStepResult {
+  step: string;
+  count: number;
+  conversionFromPrevious: number; // % of the previous step's count
+  conversionFromStart: number; // % of the first step's count
+  dropOff: number; // How many reached the previous step but not this one
+}
+
+export interface FunnelRange {
+  startDate?: Date;
+  endDate?: Date;
+  includeCancelled?: boolean;
+  customerSegment?: Prisma.CustomerWhereInput; // Only count these customers (and no anonymous visitors)
+}
+
+export class FunnelService {
+  private tenantId: string;
+
+  constructor(tenantId: string) {
+    this.tenantId = tenantId;
+  }
+
+  async list(): Promise<Funnel[]> {
+    return prisma.funnel.findMany({
+      where: { tenantId: this.tenantId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async get(funnelId: string): Promise<Funnel | null> {
+    return prisma.funnel.findFirst({
+      where: { id: funnelId, tenantId: this.tenantId },
+    });
+  }
+
+  async create(definition: FunnelDefinition): Promise<Funnel> {
+    return prisma.funnel.create({
+      data: {
+        tenantId: this.tenantId,
+        name: definition.name,
+        steps: JSON.stringify(definition.steps),
+        conversionWindowHours: definition.conversionWindowHours,
+      },
+    });
+  }
+
+  // Update a funnel; null if it doesn't exist
+  async update(funnelId: string, definition: Partial<FunnelDefinition>): Promise<Funnel | null> {
+    const existing = await this.get(funnelId);
+    if (!existing) {
+      return null;
+    }
+
+    return prisma.funnel.update({
+      where: { id: existing.id },
+      data: {
+        name: definition.name,
+        steps: definition.steps ? JSON.stringify(definition.steps) : undefined,
+        conversionWindowHours: definition.conversionWindowHours,
+      },
+    });
+  }
+
+  // Delete a funnel; false if it doesn't exist
+  async delete(funnelId: string): Promise<boolean> {
+    const { count } = await prisma.funnel.deleteMany({
+      where: { id: funnelId, tenantId: this.tenantId },
+    });
+    return count === 1;
+  }
+
+  // Step-by-step conversion for a funnel. Someone enters with their first
+  // occurrence of step one inside the date range, then must reach each later
+  // step in order, within the conversion window of entering. People are
+  // customers where known, otherwise storefront visitors by anonymous id.
+  async compute(funnel: Funnel, range: FunnelRange = {}): Promise<FunnelStepResult[]> {
+    const steps: string[] = JSON.parse(funnel.steps);
+    const windowMs = funnel.conversionWindowHours * 60 * 60 * 1000;
+
+    // Later steps may happen up to one window after the range ends
+    const from = range.startDate;
+    const until = range.endDate ? new Date(range.endDate.getTime() + windowMs) : undefined;
+    const timeFilter = from || until ? { ...(from && { gte: from }), ...(until && { lte: until }) } : undefined;
+
+    const timelines = new Map<string, Map<string, number[]>>();
+    const addOccurrence = (person: string, step: string, at: Date) => {
+      const timeline = timelines.get(person) || new Map<string, number[]>();
+      timelines.set(person, timeline);
+      const times = timeline.get(step) || [];
+      timeline.set(step, times);
+      times.push(at.getTime());
+    };
+
+    const eventTypes = steps.filter((step) => !(ORDER_MILESTONES as readonly string[]).includes(step));
+    if (eventTypes.length > 0) {
+      const events = await prisma.event.findMany({
+        where: {
+          tenantId: this.tenantId,
+          eventType: { in: eventTypes },
+          ...(timeFilter && { createdAt: timeFilter }),
+          ...(range.customerSegment && { customer: range.customerSegment }),
+        },
+        select: { eventType: true, customerId: true, anonymousId: true, createdAt: true },
+      });
+
+      for (const event of events) {
+        const person = event.customerId || (event.anonymousId && `anonymous:${event.anonymousId}`);
+        if (person) {
+          addOccurrence(person, event.eventType, event.createdAt);
+        }
+      }
+    }
+
+    if (steps.some((step) => (ORDER_MILESTONES as readonly string[]).includes(step))) {
+      const orders = await prisma.order.findMany({
+        where: {
+          tenantId: this.tenantId,
+          customerId: { not: null },
+          ...(!range.includeCancelled && { cancelledAt: null }),
+          ...(range.customerSegment && { customer: range.customerSegment }),
+          ...(timeFilter ? { shopifyCreatedAt: timeFilter } : { shopifyCreatedAt: { not: null } }),
+        },
+        select: { customerId: true, financialStatus: true, shopifyCreatedAt: true },
+      });
+
+      for (const order of orders) {
+        addOccurrence(order.customerId!, 'order_placed', order.shopifyCreatedAt!);
+        if (order.financialStatus && PAID_STATUSES.includes(order.financialStatus)) {
+          addOccurrence(order.customerId!, 'order_paid', order.shopifyCreatedAt!);
+        }
+      }
+    }
+
+    const counts = steps.map(() => 0);
+
+    for (const timeline of timelines.values()) {
+      const entries = (timeline.get(steps[0]) || [])
+        .filter(
+          (at) =>
+            (!range.startDate || at >= range.startDate.getTime()) &&
+            (!range.endDate || at <= range.endDate.getTime())
+        )
+        .sort((a, b) => a - b);
+
+      if (entries.length === 0) continue;
+
+      const enteredAt = entries[0];
+      let reachedAt = enteredAt;
+      counts[0]++;
+
+      // Each occurrence satisfies one step at most, so a repeated step needs a repeat
+      // event. Steps are reached in time order, so an event type's occurrences are
+      // consumed earliest first and a count per type is enough.
+      const sorted = (type: string) => (timeline.get(type) || []).slice().sort((a, b) => a - b);
+      const consumed = new Map<string, number>([[steps[0], sorted(steps[0]).indexOf(enteredAt) + 1]]);
+
+      for (let i = 1; i < steps.length; i++) {
+        const occurrences = sorted(steps[i]);
+        const from = consumed.get(steps[i]) || 0;
+        const index = occurrences.findIndex((at, j) => j >= from && at >= reachedAt && at <= enteredAt + windowMs);
+
+        if (index === -1) break;
+
+        consumed.set(steps[i], index + 1);
+        reachedAt = occurrences[index];
+        counts[i]++;
+      }
+    }
+
+    return steps.map((step, i) => ({
+      step,
+      count: counts[i],
+      conversionFromPrevious: i === 0 ? 100 : percentage(counts[i], counts[i - 1]),
+      conversionFromStart: percentage(counts[i], counts[0]),
+      dropOff: i === 0 ? 0 : counts[i - 1] - counts[i],
+    }));
+  }
+}
+
+function percentage(part: number, whole: number): number {
+  return whole > 0 ? Number(((part / whole) * 100).toFixed(2)) : 0;
+}
+
+// Shape a funnel for API responses, expanding the stored step list
+export function serializeFunnel(funnel: Funnel) {
+  return {
+    ...funnel,
+    steps: JSON.parse(funnel.steps) as string[],
+  };
+}
@@ -0,0 +1,295 @@
+import { FxRate, Prisma } from '@prisma/client';
+import crypto from 'crypto';
+import prisma from '../config/database';
+import { DateBucketer } from './date-buckets';
+
+// A row of the rate table: one unit of base is worth `rate` units of quote on `date`
+export interface FxRateInput {
+  date: string; // YYYY-MM-DD
+  base: string;
+  quote: string;
+  rate: number;
+}
+
+export interface FxRateFilters {
+  currency?: string; // Either side of the pair
+  startDate?: Date;
+  endDate?: Date;
+}
+
+// Rates aren't published on weekends and holidays, so the latest one up to this old is used
+export const MAX_RATE_AGE_DAYS = 7;
+export const MAX_RATES_PER_REQUEST = 10000;
+
+const UPSERT_BATCH_SIZE = 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const isCurrencyCode = (value: unknown): value is string =>
+  typeof value === 'string' && /^[A-Z]{3}$/.test(value);
+
+// No rate could be found for some of the amounts being converted
+export class MissingFxRateError extends Error {
+  missing: Array<{ currency: string; date: string }>;
+
+  constructor(target: string, missing: Array<{ currency: string; date: string }>) {
+    super(`No exchange rate to ${target} for ${missing.length} currency and date pair(s)`);
+    this.name = 'MissingFxRateError';
+    this.missing = missing;
+  }
+}
+
+// Check rate rows from a request body or file, returning the first problem found
+export function validateFxRates(rates: any): string | null {
+  if (!Array.isArray(rates) || rates.length === 0) {
+    return 'rates must be a non-empty array';
+  }
+  if (rates.length > MAX_RATES_PER_REQUEST) {
+    return `At most ${MAX_RATES_PER_REQUEST} rates can be loaded at once`;
+  }
+
+  for (const [i, rate] of rates.entries()) {
+    const at = `rates[${i}]`;
+
+    if (!rate || typeof rate.date !== 'string' || !/^\d{4}-\d{2}-\d{2}$/.test(rate.date) || isNaN(Date.parse(rate.date))) {
+      return `${at}.date must be a YYYY-MM-DD date`;
+    }
+    if (!isCurrencyCode(rate.base) || !isCurrencyCode(rate.quote)) {
+      return `${at}.base and ${at}.quote must be three-letter uppercase currency codes`;
+    }
+    if (rate.base === rate.quote) {
+      return `${at}.base and ${at}.quote must differ`;
+    }
+    if (typeof rate.rate !== 'number' || !Number.isFinite(rate.rate) || rate.rate <= 0) {
+      return `${at}.rate must be a positive number`;
+    }
+  }
+
+  return null;
+}
+
+// Parse a rate file: a JSON array of rates, or CSV with a date,base,quote,rate header
+export function parseFxRateFile(content: string): FxRateInput[] {
+  const trimmed = content.trim();
+  if (trimmed.startsWith('[') || trimmed.startsWith('{')) {
+    const parsed = JSON.parse(trimmed);
+    return Array.isArray(parsed) ? parsed : parsed.rates;
+  }
+
+  const [header, ...lines] = trimmed.split(/\r?\n/);
+  const columns = header.split(',').map((column) => column.trim().toLowerCase());
+  const index = (name: string) => {
+    const i = columns.indexOf(name);
+    if (i === -1) {
+      throw new Error(`CSV header must include date, base, quote and rate (got: ${header})`);
+    }
+    return i;
+  };
+  const [dateAt, baseAt, quoteAt, rateAt] = ['date', 'base', 'quote', 'rate'].map(index);
+
+  return lines
+    .filter((line) => line.trim())
+    .map((line) => {
+      const cells = line.split(',').map((cell) => cell.trim());
+      return {
+        date: cells[dateAt],
+        base: cells[baseAt]?.toUpperCase(),
+        quote: cells[quoteAt]?.toUpperCase(),
+        rate: parseFloat(cells[rateAt]),
+      };
+    });
+}
+
+export class FxService {
+  private tenantId: string;
+
+  constructor(tenantId: string) {
+    this.tenantId = tenantId;
+  }
+
+  async list(filters: FxRateFilters, take: number, skip: number) {
+    const where: Prisma.FxRateWhereInput = { tenantId: this.tenantId };
+    if (filters.currency) {
+      where.OR = [{ baseCurrency: filters.currency }, { quoteCurrency: filters.currency }];
+    }
+    if (filters.startDate || filters.endDate) {
+      where.date = { gte: filters.startDate, lte: filters.endDate };
+    }
+
+    const [rates, total] = await Promise.all([
+      prisma.fxRate.findMany({
+        where,
+        orderBy: [{ date: 'desc' }, { baseCurrency: 'asc' }, { quoteCurrency: 'asc' }],
+        take,
+        skip,
+      }),
+      prisma.fxRate.count({ where }),
+    ]);
+
+    return { rates, total };
+  }
+
+  // Insert rates, replacing any already stored for the same pair and date. A statement
+  // can't write the same row twice, so if a pair and date repeats the last one given wins.
+  async upsert(rates: FxRateInput[]): Promise<number> {
+    const now = new Date();
+    const unique = Array.from(new Map(rates.map((r) => [`${r.base}/${r.quote}/${r.date}`, r])).values());
+
+    for (let i = 0; i < unique.length; i += UPSERT_BATCH_SIZE) {
+      const values = unique
+        .slice(i, i + UPSERT_BATCH_SIZE)
+        .map(
+          (r) =>
+            Prisma.sql`(${crypto.randomUUID()}, ${this.tenantId}, ${r.date}::date, ${r.base}, ${r.quote}, ${r.rate}::numeric, ${now}, ${now})`
+        );
+
+      await prisma.$executeRaw`
+        INSERT INTO "fx_rates" ("id", "tenantId", "date", "baseCurrency", "quoteCurrency", "rate", "createdAt", "updatedAt")
+        VALUES ${Prisma.join(values)}
+        ON CONFLICT ("tenantId", "baseCurrency", "quoteCurrency", "date")
+        DO UPDATE SET "rate" = EXCLUDED."rate", "updatedAt" = EXCLUDED."updatedAt"
+      `;
+    }
+
+    return unique.length;
+  }
+
+  // Delete a rate; false if it doesn't exist
+  async delete(rateId: string): Promise<boolean> {
+    const { count } = await prisma.fxRate.deleteMany({
+      where: { id: rateId, tenantId: this.tenantId },
+    });
+    return count === 1;
+  }
+
+  // A converter into `currency` over the tenant's whole rate table. Dates are the
+  // shop's, so pass its timezone.
+  async converter(currency: string, options: { timezone: string; defaultCurrency: string }): Promise<CurrencyConverter> {
+    const rates = await prisma.fxRate.findMany({
+      where: { tenantId: this.tenantId },
+      select: { date: true, baseCurrency: true, quoteCurrency: true, rate: true },
+      orderBy: { date: 'asc' },
+    });
+
+    return new CurrencyConverter(currency, rates, options);
+  }
+}
+
+// Converts amounts into one currency at the rate for each amount's date. A pair can
+// be used directly, inverted, or crossed through a third currency both sides have a
+// rate against. Amounts without a rate count as 0 until assertComplete() is called.
+export class CurrencyConverter {
+  readonly currency: string;
+  private defaultCurrency: string;
+  private calendar: DateBucketer;
+  private pairs = new Map<string, Array<{ day: number; rate: number }>>();
+  private currencies = new Set<string>();
+  private cache = new Map<string, number | null>();
+  private missing = new Map<string, { currency: string; date: string }>();
+
+  constructor(
+    currency: string,
+    rates: Array<Pick<FxRate, 'date' | 'baseCurrency' | 'quoteCurrency' | 'rate'>>,
+    options: { timezone: string; defaultCurrency: string }
+  ) {
+    this.currency = currency;
+    this.defaultCurrency = options.defaultCurrency;
+    this.calendar = new DateBucketer({ unit: 'day', timezone: options.timezone });
+
+    // Rates arrive in date order, so each pair's list is sorted
+    for (const rate of rates) {
+      const key = `${rate.baseCurrency}/${rate.quoteCurrency}`;
+      if (!this.pairs.has(key)) {
+        this.pairs.set(key, []);
+      }
+      this.pairs.get(key)!.push({ day: rate.date.getTime(), rate: Number(rate.rate) });
+      this.currencies.add(rate.baseCurrency);
+      this.currencies.add(rate.quoteCurrency);
+    }
+  }
+
+  // An amount in `from` (the shop's currency if unknown), converted at the rate for the
+  // shop-local date of `at`
+  convert(amount: number | Prisma.Decimal, from: string | null, at: Date): number {
+    const value = Number(amount);
+    const currency = from || this.defaultCurrency;
+    if (currency === this.currency || value === 0) {
+      return value;
+    }
+
+    const local = this.calendar.localTime(at);
+    const day = Date.UTC(local.year, local.month - 1, local.day);
+    const cacheKey = `${currency}:${day}`;
+
+    if (!this.cache.has(cacheKey)) {
+      this.cache.set(cacheKey, this.rate(currency, day));
+    }
+
+    const rate = this.cache.get(cacheKey)!;
+    if (rate === null) {
+      const date = new Date(day).toISOString().split('T')[0];
+      this.missing.set(cacheKey, { currency, date });
+      return 0;
+    }
+    return value * rate;
+  }
+
+  // Throw if any amount converted so far had no rate
+  assertComplete(): void {
+    if (this.missing.size > 0) {
+      throw new MissingFxRateError(this.currency, Array.from(this.missing.values()));
+    }
+  }
+
+  private rate(from: string, day: number): number | null {
+    const direct = this.pairRate(from, this.currency, day);
+    if (direct !== null) {
+      return direct;
+    }
+
+    for (const via of this.currencies) {
+      if (via === from || via === this.currency) continue;
+      const first = this.pairRate(from, via, day);
+      const second = first !== null ? this.pairRate(via, this.currency, day) : null;
+      if (first !== null && second !== null) {
+        return first * second;
+      }
+    }
+    return null;
+  }
+
+  // Units of `to` per unit of `from`, from a stored pair either way round
+  private pairRate(from: string, to: string, day: number): number | null {
+    const forward = this.latest(`${from}/${to}`, day);
+    if (forward !== null) {
+      return forward;
+    }
+    const backward = this.latest(`${to}/${from}`, day);
+    return backward !== null ? 1 / backward : null;
+  }
+
+  // The pair's rate on the day, or the latest before it within MAX_RATE_AGE_DAYS
+  private latest(pair: string, day: number): number | null {
+    const rates = this.pairs.get(pair);
+    if (!rates) {
+      return null;
+    }
+
+    let low = 0;
+    let high = rates.length - 1;
+    let found = -1;
+    while (low <= high) {
+      const mid = (low + high) >> 1;
+      if (rates[mid].day <= day) {
+        found = mid;
+        low = mid + 1;
+      } else {
+        high = mid - 1;
+      }
+    }
+
+    if (found === -1 || day - rates[found].day > MAX_RATE_AGE_DAYS * DAY_MS) {
+      return null;
+    }
+    return rates[found].rate;
+  }
+}
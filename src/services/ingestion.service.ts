@@ -1,259 +1,853 @@
 import prisma from '../config/database';
-import { ShopifyService, ShopifyCustomer, ShopifyProduct, ShopifyOrder } from './shopify.service';
+import {
+  ShopifyService,
+  ShopifyCustomer,
+  ShopifyProduct,
+  ShopifyVariant,
+  ShopifyOrder,
+  ShopifyRefund,
+  ShopifyLocation,
+  ShopifyInventoryLevel,
+  ShopifyCheckout,
+  ShopifyShop,
+  ShopifyMoneySet,
+} from './shopify.service';
+import { ShopifyGraphQLService } from './shopify-graphql.service';
+import { StorefrontEventService } from './storefront-event.service';
+
+export type SyncResource = 'customers' | 'products' | 'orders' | 'inventory' | 'checkouts';
+
+// skipped: the payload was older than the stored record, so it was left alone
+export type UpsertOutcome = 'created' | 'updated' | 'skipped';
+
+export interface SyncOptions {
+  full?: boolean; // Ignore the stored cursor and re-download everything
+  bulk?: boolean; // Force GraphQL bulk mode on or off (default: bulk for initial/full syncs)
+}
 
 export class IngestionService {
   private shopifyService: ShopifyService;
+  private graphqlService: ShopifyGraphQLService;
   private tenantId: string;
+  private lowStockThreshold?: number;
 
   constructor(tenantId: string, shopDomain: string, accessToken: string) {
     this.tenantId = tenantId;
     this.shopifyService = new ShopifyService(shopDomain, accessToken);
+    this.graphqlService = new ShopifyGraphQLService(shopDomain, accessToken);
+  }
+
+  // Ingest customers changed since the last sync (or all of them on a full resync)
+  async ingestCustomers(options: SyncOptions = {}): Promise<{ created: number; updated: number }> {
+    const since = await this.getSyncCursor('customers', options);
+    const shopifyCustomers = this.useBulk(since, options)
+      ? this.graphqlService.bulkCustomers()
+      : await this.shopifyService.getCustomers(250, since);
+
+    return this.ingestRecords('customers', shopifyCustomers, (customer) => this.upsertCustomer(customer));
+  }
+
+  // Ingest products changed since the last sync (or all of them on a full resync)
+  async ingestProducts(options: SyncOptions = {}): Promise<{ created: number; updated: number }> {
+    const since = await this.getSyncCursor('products', options);
+    const shopifyProducts = this.useBulk(since, options)
+      ? this.graphqlService.bulkProducts()
+      : await this.shopifyService.getProducts(250, since);
+
+    return this.ingestRecords('products', shopifyProducts, (product) => this.upsertProduct(product));
+  }
+
+  // Ingest orders changed since the last sync (or all of them on a full resync)
+  async ingestOrders(options: SyncOptions = {}): Promise<{ created: number; updated: number }> {
+    const since = await this.getSyncCursor('orders', options);
+    const shopifyOrders = this.useBulk(since, options)
+      ? this.graphqlService.bulkOrders()
+      : await this.shopifyService.getOrders(250, 'any', since);
+
+    return this.ingestRecords('orders', shopifyOrders, (order) => this.upsertOrder(order));
+  }
+
+  // Ingest abandoned checkouts changed since the last sync. Bulk queries can't
+  // reach abandoned checkouts, so this always pages through REST.
+  async ingestCheckouts(options: SyncOptions = {}): Promise<{ created: number; updated: number }> {
+    const since = await this.getSyncCursor('checkouts', options);
+    const shopifyCheckouts = await this.shopifyService.getCheckouts(250, since);
+
+    return this.ingestRecords('checkouts', shopifyCheckouts, (checkout) => this.upsertCheckout(checkout));
   }
 
-  // Ingest all customers
-  async ingestCustomers(): Promise<{ created: number; updated: number }> {
-    const shopifyCustomers = await this.shopifyService.getCustomers();
+  // Ingest locations and their inventory levels changed since the last sync
+  async ingestInventory(options: SyncOptions = {}): Promise<{ created: number; updated: number }> {
+    const since = await this.getSyncCursor('inventory', options);
+    const shopifyLocations = await this.shopifyService.getLocations();
+
+    for (const shopifyLocation of shopifyLocations) {
+      await this.upsertLocation(shopifyLocation);
+    }
+
+    const shopifyLevels = await this.shopifyService.getInventoryLevels(
+      shopifyLocations.map((location) => location.id.toString()),
+      250,
+      since
+    );
+
+    return this.ingestRecords('inventory', shopifyLevels, (level) => this.upsertInventoryLevel(level));
+  }
+
+  // Upsert every record from a REST page list or a bulk result stream, then
+  // advance the resource's cursor to the newest updated_at seen
+  private async ingestRecords<T extends { updated_at: string }>(
+    resource: SyncResource,
+    records: Iterable<T> | AsyncIterable<T>,
+    upsert: (record: T) => Promise<UpsertOutcome>
+  ): Promise<{ created: number; updated: number }> {
     let created = 0;
     let updated = 0;
+    let lastUpdatedAt: Date | undefined;
 
-    for (const shopifyCustomer of shopifyCustomers) {
-      const existing = await prisma.customer.findUnique({
-        where: {
-          tenantId_shopifyId: {
-            tenantId: this.tenantId,
-            shopifyId: shopifyCustomer.id.toString(),
-          },
+    for await (const record of records) {
+      const outcome = await upsert(record);
+      if (outcome === 'created') {
+        created++;
+      } else if (outcome === 'updated') {
+        updated++;
+      }
+
+      if (record.updated_at) {
+        const updatedAt = new Date(record.updated_at);
+        if (!lastUpdatedAt || updatedAt > lastUpdatedAt) {
+          lastUpdatedAt = updatedAt;
+        }
+      }
+    }
+
+    await this.saveSyncCursor(resource, lastUpdatedAt);
+
+    return { created, updated };
+  }
+
+  // Initial and full syncs go through a GraphQL bulk operation unless disabled
+  // (options.bulk = false or SHOPIFY_BULK_SYNC=false); incremental ones use REST
+  private useBulk(since: Date | undefined, options: SyncOptions): boolean {
+    if (options.bulk !== undefined) {
+      return options.bulk;
+    }
+    return since === undefined && process.env.SHOPIFY_BULK_SYNC !== 'false';
+  }
+
+  // Create or update a single customer from its Shopify payload
+  async upsertCustomer(shopifyCustomer: ShopifyCustomer): Promise<UpsertOutcome> {
+    const existing = await prisma.customer.findUnique({
+      where: {
+        tenantId_shopifyId: {
+          tenantId: this.tenantId,
+          shopifyId: shopifyCustomer.id.toString(),
+        },
+      },
+    });
+    if (isStale(existing, shopifyCustomer.updated_at)) {
+      return 'skipped';
+    }
+
+    const data = {
+      shopifyId: shopifyCustomer.id.toString(),
+      email: shopifyCustomer.email || null,
+      firstName: shopifyCustomer.first_name || null,
+      lastName: shopifyCustomer.last_name || null,
+      phone: shopifyCustomer.phone || null,
+      totalSpent: parseFloat(shopifyCustomer.total_spent) || 0,
+      ordersCount: shopifyCustomer.orders_count || 0,
+      tags: (shopifyCustomer.tags || '')
+        .split(',')
+        .map((tag) => tag.trim())
+        .filter(Boolean),
+      shopifyCreatedAt: shopifyCustomer.created_at ? new Date(shopifyCustomer.created_at) : null,
+      shopifyUpdatedAt: shopifyCustomer.updated_at ? new Date(shopifyCustomer.updated_at) : null,
+    };
+
+    if (existing) {
+      await prisma.customer.update({
+        where: { id: existing.id },
+        data,
+      });
+      return 'updated';
+    } else {
+      const customer = await prisma.customer.create({
+        data: {
+          ...data,
+          tenantId: this.tenantId,
         },
       });
 
-      const data = {
-        shopifyId: shopifyCustomer.id.toString(),
-        email: shopifyCustomer.email || null,
-        firstName: shopifyCustomer.first_name || null,
-        lastName: shopifyCustomer.last_name || null,
-        phone: shopifyCustomer.phone || null,
-        totalSpent: parseFloat(shopifyCustomer.total_spent) || 0,
-        ordersCount: shopifyCustomer.orders_count || 0,
-        shopifyCreatedAt: shopifyCustomer.created_at ? new Date(shopifyCustomer.created_at) : null,
-        shopifyUpdatedAt: shopifyCustomer.updated_at ? new Date(shopifyCustomer.updated_at) : null,
-      };
+      // Storefront visitors may have identified as this customer before it was synced,
+      // and events and checkouts may have been recorded against its Shopify id
+      await new StorefrontEventService(this.tenantId).linkVisitors(customer);
+      await prisma.event.updateMany({
+        where: { tenantId: this.tenantId, shopifyCustomerId: customer.shopifyId, customerId: null },
+        data: { customerId: customer.id },
+      });
+      await prisma.checkout.updateMany({
+        where: { tenantId: this.tenantId, shopifyCustomerId: customer.shopifyId, customerId: null },
+        data: { customerId: customer.id },
+      });
+      return 'created';
+    }
+  }
 
-      if (existing) {
-        await prisma.customer.update({
+  // Create or update a single product from its Shopify payload
+  async upsertProduct(shopifyProduct: ShopifyProduct): Promise<UpsertOutcome> {
+    const existing = await prisma.product.findUnique({
+      where: {
+        tenantId_shopifyId: {
+          tenantId: this.tenantId,
+          shopifyId: shopifyProduct.id.toString(),
+        },
+      },
+    });
+    if (isStale(existing, shopifyProduct.updated_at)) {
+      return 'skipped';
+    }
+
+    // Product-level summary: lowest variant price and total stock across variants
+    const variants = shopifyProduct.variants || [];
+    const cheapestVariant = variants.reduce<ShopifyVariant | undefined>(
+      (min, variant) => (!min || parseFloat(variant.price) < parseFloat(min.price) ? variant : min),
+      undefined
+    );
+    const price = cheapestVariant ? parseFloat(cheapestVariant.price) : null;
+    const compareAtPrice = cheapestVariant?.compare_at_price
+      ? parseFloat(cheapestVariant.compare_at_price)
+      : null;
+    const inventoryQuantity = variants.reduce((sum, variant) => sum + (variant.inventory_quantity || 0), 0);
+
+    const data = {
+      shopifyId: shopifyProduct.id.toString(),
+      title: shopifyProduct.title,
+      handle: shopifyProduct.handle || null,
+      vendor: shopifyProduct.vendor || null,
+      productType: shopifyProduct.product_type || null,
+      status: shopifyProduct.status || null,
+      price: price,
+      compareAtPrice: compareAtPrice,
+      inventoryQuantity: inventoryQuantity,
+      shopifyCreatedAt: shopifyProduct.created_at ? new Date(shopifyProduct.created_at) : null,
+      shopifyUpdatedAt: shopifyProduct.updated_at ? new Date(shopifyProduct.updated_at) : null,
+    };
+
+    const product = existing
+      ? await prisma.product.update({
           where: { id: existing.id },
           data,
-        });
-        updated++;
-      } else {
-        await prisma.customer.create({
+        })
+      : await prisma.product.create({
           data: {
             ...data,
             tenantId: this.tenantId,
           },
         });
-        created++;
-      }
+
+    await this.syncVariants(product.id, variants);
+
+    return existing ? 'updated' : 'created';
+  }
+
+  // Upsert a product's variants and drop the ones Shopify no longer lists
+  private async syncVariants(productId: string, variants: ShopifyVariant[]): Promise<void> {
+    for (const variant of variants) {
+      const data = {
+        productId,
+        title: variant.title || null,
+        sku: variant.sku || null,
+        option1: variant.option1 || null,
+        option2: variant.option2 || null,
+        option3: variant.option3 || null,
+        position: variant.position ?? null,
+        price: parseFloat(variant.price) || 0,
+        compareAtPrice: variant.compare_at_price ? parseFloat(variant.compare_at_price) : null,
+        inventoryQuantity: variant.inventory_quantity || 0,
+        inventoryItemId: variant.inventory_item_id?.toString() || null,
+        shopifyCreatedAt: variant.created_at ? new Date(variant.created_at) : null,
+        shopifyUpdatedAt: variant.updated_at ? new Date(variant.updated_at) : null,
+      };
+
+      await prisma.productVariant.upsert({
+        where: {
+          tenantId_shopifyId: {
+            tenantId: this.tenantId,
+            shopifyId: variant.id.toString(),
+          },
+        },
+        create: {
+          ...data,
+          tenantId: this.tenantId,
+          shopifyId: variant.id.toString(),
+        },
+        update: data,
+      });
     }
 
-    return { created, updated };
+    // Order items keep their shopifyVariantId when a removed variant's row goes.
+    // A payload without variants is treated as partial rather than "no variants".
+    if (variants.length === 0) {
+      return;
+    }
+
+    await prisma.productVariant.deleteMany({
+      where: {
+        productId,
+        shopifyId: { notIn: variants.map((variant) => variant.id.toString()) },
+      },
+    });
   }
 
-  // Ingest all products
-  async ingestProducts(): Promise<{ created: number; updated: number }> {
-    const shopifyProducts = await this.shopifyService.getProducts();
-    let created = 0;
-    let updated = 0;
+  // Create or update a single order and its line items from its Shopify payload
+  async upsertOrder(shopifyOrder: ShopifyOrder): Promise<UpsertOutcome> {
+    const existing = await prisma.order.findUnique({
+      where: {
+        tenantId_shopifyId: {
+          tenantId: this.tenantId,
+          shopifyId: shopifyOrder.id.toString(),
+        },
+      },
+    });
+    if (isStale(existing, shopifyOrder.updated_at)) {
+      return 'skipped';
+    }
 
-    for (const shopifyProduct of shopifyProducts) {
-      const existing = await prisma.product.findUnique({
+    // Find or create customer if order has customer
+    let customerId: string | null = null;
+    if (shopifyOrder.customer?.id) {
+      const customer = await prisma.customer.findUnique({
         where: {
           tenantId_shopifyId: {
             tenantId: this.tenantId,
-            shopifyId: shopifyProduct.id.toString(),
+            shopifyId: shopifyOrder.customer.id.toString(),
           },
         },
       });
+      customerId = customer?.id || null;
+    }
 
-      // Get first variant for pricing
-      const firstVariant = shopifyProduct.variants?.[0];
-      const price = firstVariant ? parseFloat(firstVariant.price) : null;
-      const compareAtPrice = firstVariant?.compare_at_price
-        ? parseFloat(firstVariant.compare_at_price)
-        : null;
-      const inventoryQuantity = firstVariant?.inventory_quantity || 0;
+    const orderData = {
+      shopifyId: shopifyOrder.id.toString(),
+      orderNumber: shopifyOrder.order_number?.toString() || null,
+      email: shopifyOrder.email || null,
+      financialStatus: shopifyOrder.financial_status || null,
+      fulfillmentStatus: shopifyOrder.fulfillment_status || null,
+      totalPrice: parseFloat(shopifyOrder.total_price) || 0,
+      subtotalPrice: shopifyOrder.subtotal_price ? parseFloat(shopifyOrder.subtotal_price) : null,
+      totalTax: shopifyOrder.total_tax ? parseFloat(shopifyOrder.total_tax) : null,
+      totalDiscounts: shopifyOrder.total_discounts
+        ? parseFloat(shopifyOrder.total_discounts)
+        : null,
+      currency: shopifyOrder.currency || 'USD',
+      presentmentCurrency:
+        shopifyOrder.presentment_currency || shopifyOrder.total_price_set?.presentment_money.currency_code || null,
+      presentmentTotalPrice: presentmentAmount(shopifyOrder.total_price_set),
+      presentmentSubtotalPrice: presentmentAmount(shopifyOrder.subtotal_price_set),
+      presentmentTotalTax: presentmentAmount(shopifyOrder.total_tax_set),
+      presentmentTotalDiscounts: presentmentAmount(shopifyOrder.total_discounts_set),
+      customerId: customerId,
+      cancelledAt: shopifyOrder.cancelled_at ? new Date(shopifyOrder.cancelled_at) : null,
+      cancelReason: shopifyOrder.cancel_reason || null,
+      // An order's checkout token never changes, so a payload without one leaves a stored token alone
+      checkoutToken: shopifyOrder.checkout_token ?? undefined,
+      shopifyCreatedAt: shopifyOrder.created_at ? new Date(shopifyOrder.created_at) : null,
+      shopifyUpdatedAt: shopifyOrder.updated_at ? new Date(shopifyOrder.updated_at) : null,
+    };
 
-      const data = {
-        shopifyId: shopifyProduct.id.toString(),
-        title: shopifyProduct.title,
-        handle: shopifyProduct.handle || null,
-        vendor: shopifyProduct.vendor || null,
-        productType: shopifyProduct.product_type || null,
-        status: shopifyProduct.status || null,
-        price: price,
-        compareAtPrice: compareAtPrice,
-        inventoryQuantity: inventoryQuantity,
-        shopifyCreatedAt: shopifyProduct.created_at ? new Date(shopifyProduct.created_at) : null,
-        shopifyUpdatedAt: shopifyProduct.updated_at ? new Date(shopifyProduct.updated_at) : null,
-      };
+    let order;
+    if (existing) {
+      order = await prisma.order.update({
+        where: { id: existing.id },
+        data: orderData,
+      });
+    } else {
+      order = await prisma.order.create({
+        data: {
+          ...orderData,
+          tenantId: this.tenantId,
+        },
+      });
+    }
 
-      if (existing) {
-        await prisma.product.update({
-          where: { id: existing.id },
-          data,
-        });
-        updated++;
-      } else {
-        await prisma.product.create({
+    // Ingest order items
+    if (shopifyOrder.line_items && shopifyOrder.line_items.length > 0) {
+      // Delete existing order items
+      await prisma.orderItem.deleteMany({
+        where: { orderId: order.id },
+      });
+
+      // Create new order items
+      for (const item of shopifyOrder.line_items) {
+        let productId: string | null = null;
+        if (item.product_id) {
+          const product = await prisma.product.findUnique({
+            where: {
+              tenantId_shopifyId: {
+                tenantId: this.tenantId,
+                shopifyId: item.product_id.toString(),
+              },
+            },
+          });
+          productId = product?.id || null;
+        }
+
+        let variantId: string | null = null;
+        if (item.variant_id) {
+          const variant = await prisma.productVariant.findUnique({
+            where: {
+              tenantId_shopifyId: {
+                tenantId: this.tenantId,
+                shopifyId: item.variant_id.toString(),
+              },
+            },
+          });
+          variantId = variant?.id || null;
+        }
+
+        await prisma.orderItem.create({
           data: {
-            ...data,
-            tenantId: this.tenantId,
+            orderId: order.id,
+            productId: productId,
+            shopifyProductId: item.product_id?.toString() || null,
+            variantId: variantId,
+            shopifyVariantId: item.variant_id?.toString() || null,
+            shopifyLineItemId: item.id?.toString() || null,
+            title: item.title,
+            quantity: item.quantity,
+            price: parseFloat(item.price) || 0,
+            totalDiscount: item.total_discount ? parseFloat(item.total_discount) : null,
+            sku: item.sku || null,
+            variantTitle: item.variant_title || null,
           },
         });
-        created++;
       }
     }
 
-    return { created, updated };
+    // Ingest refunds after the items so refund lines can link to them
+    for (const refund of shopifyOrder.refunds || []) {
+      await this.upsertRefund(order.id, refund);
+    }
+
+    // Mark the checkout this order came from as completed
+    if (order.checkoutToken) {
+      await prisma.checkout.updateMany({
+        where: { tenantId: this.tenantId, token: order.checkoutToken, completedAt: null },
+        data: { completedAt: order.shopifyCreatedAt || new Date() },
+      });
+      await prisma.checkout.updateMany({
+        where: { tenantId: this.tenantId, token: order.checkoutToken },
+        data: { orderId: order.id },
+      });
+    }
+
+    return existing ? 'updated' : 'created';
   }
 
-  // Ingest all orders
-  async ingestOrders(): Promise<{ created: number; updated: number }> {
-    const shopifyOrders = await this.shopifyService.getOrders();
-    let created = 0;
-    let updated = 0;
+  // Create or update a checkout, linking it to its customer and to the order it became
+  async upsertCheckout(shopifyCheckout: ShopifyCheckout): Promise<UpsertOutcome> {
+    const existing = await prisma.checkout.findUnique({
+      where: {
+        tenantId_shopifyId: {
+          tenantId: this.tenantId,
+          shopifyId: shopifyCheckout.id.toString(),
+        },
+      },
+    });
+    if (isStale(existing, shopifyCheckout.updated_at)) {
+      return 'skipped';
+    }
 
-    for (const shopifyOrder of shopifyOrders) {
-      const existing = await prisma.order.findUnique({
+    let customerId: string | null = null;
+    if (shopifyCheckout.customer?.id) {
+      const customer = await prisma.customer.findUnique({
         where: {
           tenantId_shopifyId: {
             tenantId: this.tenantId,
-            shopifyId: shopifyOrder.id.toString(),
+            shopifyId: shopifyCheckout.customer.id.toString(),
           },
         },
       });
+      customerId = customer?.id || null;
+    }
 
-      // Find or create customer if order has customer
-      let customerId: string | null = null;
-      if (shopifyOrder.customer?.id) {
-        const customer = await prisma.customer.findUnique({
-          where: {
-            tenantId_shopifyId: {
-              tenantId: this.tenantId,
-              shopifyId: shopifyOrder.customer.id.toString(),
-            },
-          },
-        });
-        customerId = customer?.id || null;
-      }
+    // The order may have been ingested before its checkout
+    const order = await prisma.order.findFirst({
+      where: { tenantId: this.tenantId, checkoutToken: shopifyCheckout.token },
+      select: { id: true, shopifyCreatedAt: true },
+    });
 
-      const orderData = {
-        shopifyId: shopifyOrder.id.toString(),
-        orderNumber: shopifyOrder.order_number?.toString() || null,
-        email: shopifyOrder.email || null,
-        financialStatus: shopifyOrder.financial_status || null,
-        fulfillmentStatus: shopifyOrder.fulfillment_status || null,
-        totalPrice: parseFloat(shopifyOrder.total_price) || 0,
-        subtotalPrice: shopifyOrder.subtotal_price ? parseFloat(shopifyOrder.subtotal_price) : null,
-        totalTax: shopifyOrder.total_tax ? parseFloat(shopifyOrder.total_tax) : null,
-        totalDiscounts: shopifyOrder.total_discounts
-          ? parseFloat(shopifyOrder.total_discounts)
-          : null,
-        currency: shopifyOrder.currency || 'USD',
-        customerId: customerId,
-        shopifyCreatedAt: shopifyOrder.created_at ? new Date(shopifyOrder.created_at) : null,
-        shopifyUpdatedAt: shopifyOrder.updated_at ? new Date(shopifyOrder.updated_at) : null,
-      };
+    const completedAt = shopifyCheckout.completed_at
+      ? new Date(shopifyCheckout.completed_at)
+      : order?.shopifyCreatedAt || existing?.completedAt || null;
 
-      let order;
-      if (existing) {
-        order = await prisma.order.update({
-          where: { id: existing.id },
-          data: orderData,
-        });
-        updated++;
-      } else {
-        order = await prisma.order.create({
-          data: {
-            ...orderData,
-            tenantId: this.tenantId,
-          },
+    const data = {
+      shopifyId: shopifyCheckout.id.toString(),
+      token: shopifyCheckout.token,
+      email: shopifyCheckout.email || null,
+      customerId,
+      shopifyCustomerId: shopifyCheckout.customer?.id ? shopifyCheckout.customer.id.toString() : null,
+      orderId: order?.id || existing?.orderId || null,
+      totalPrice: parseFloat(shopifyCheckout.total_price) || 0,
+      subtotalPrice: shopifyCheckout.subtotal_price ? parseFloat(shopifyCheckout.subtotal_price) : null,
+      currency: shopifyCheckout.currency || null,
+      abandonedCheckoutUrl: shopifyCheckout.abandoned_checkout_url || null,
+      completedAt,
+      shopifyCreatedAt: shopifyCheckout.created_at ? new Date(shopifyCheckout.created_at) : null,
+      shopifyUpdatedAt: shopifyCheckout.updated_at ? new Date(shopifyCheckout.updated_at) : null,
+    };
+
+    if (existing) {
+      await prisma.checkout.update({
+        where: { id: existing.id },
+        data,
+      });
+      return 'updated';
+    }
+
+    await prisma.checkout.create({
+      data: {
+        ...data,
+        tenantId: this.tenantId,
+      },
+    });
+    return 'created';
+  }
+
+  // Create or update a refund and its line items for an already-stored order
+  private async upsertRefund(orderId: string, shopifyRefund: ShopifyRefund): Promise<void> {
+    // The money actually returned is on the successful refund transactions;
+    // fall back to the refunded lines when Shopify omits transactions
+    const transactions = (shopifyRefund.transactions || []).filter(
+      (t) => t.kind === 'refund' && t.status === 'success'
+    );
+    const amount = transactions.length > 0
+      ? transactions.reduce((sum, t) => sum + (parseFloat(t.amount) || 0), 0)
+      : (shopifyRefund.refund_line_items || []).reduce(
+          (sum, item) => sum + (parseFloat(String(item.subtotal)) || 0) + (parseFloat(String(item.total_tax ?? 0)) || 0),
+          0
+        );
+
+    const data = {
+      orderId,
+      amount,
+      note: shopifyRefund.note || null,
+      refundedAt: new Date(shopifyRefund.processed_at || shopifyRefund.created_at),
+    };
+
+    const refund = await prisma.refund.upsert({
+      where: {
+        tenantId_shopifyId: {
+          tenantId: this.tenantId,
+          shopifyId: shopifyRefund.id.toString(),
+        },
+      },
+      create: {
+        ...data,
+        tenantId: this.tenantId,
+        shopifyId: shopifyRefund.id.toString(),
+      },
+      update: data,
+    });
+
+    // Bulk order results carry refund totals without lines; keep the stored lines then
+    if (!shopifyRefund.refund_line_items) {
+      return;
+    }
+
+    // Replace refund line items, linking each to its order item
+    await prisma.refundLineItem.deleteMany({
+      where: { refundId: refund.id },
+    });
+
+    for (const item of shopifyRefund.refund_line_items) {
+      const orderItem = await prisma.orderItem.findFirst({
+        where: { orderId, shopifyLineItemId: item.line_item_id.toString() },
+        select: { id: true },
+      });
+
+      await prisma.refundLineItem.create({
+        data: {
+          refundId: refund.id,
+          orderItemId: orderItem?.id || null,
+          shopifyLineItemId: item.line_item_id.toString(),
+          quantity: item.quantity,
+          subtotal: parseFloat(String(item.subtotal)) || 0,
+          totalTax: item.total_tax !== undefined ? parseFloat(String(item.total_tax)) || 0 : null,
+        },
+      });
+    }
+  }
+
+  // Create or update a location from its Shopify payload
+  async upsertLocation(shopifyLocation: ShopifyLocation): Promise<string> {
+    const data = {
+      name: shopifyLocation.name,
+      active: shopifyLocation.active ?? true,
+      city: shopifyLocation.city || null,
+      countryCode: shopifyLocation.country_code || null,
+    };
+
+    const location = await prisma.location.upsert({
+      where: {
+        tenantId_shopifyId: {
+          tenantId: this.tenantId,
+          shopifyId: shopifyLocation.id.toString(),
+        },
+      },
+      create: {
+        ...data,
+        tenantId: this.tenantId,
+        shopifyId: shopifyLocation.id.toString(),
+      },
+      update: data,
+    });
+
+    return location.id;
+  }
+
+  // Create or update one item's stock at one location. Records a low_stock event
+  // when a tracked level drops to or below the tenant's threshold.
+  async upsertInventoryLevel(shopifyLevel: ShopifyInventoryLevel): Promise<UpsertOutcome> {
+    const shopifyLocationId = shopifyLevel.location_id.toString();
+    const inventoryItemId = shopifyLevel.inventory_item_id.toString();
+
+    const location = await prisma.location.findUnique({
+      where: {
+        tenantId_shopifyId: {
+          tenantId: this.tenantId,
+          shopifyId: shopifyLocationId,
+        },
+      },
+    });
+    let locationId = location?.id;
+
+    if (!locationId) {
+      const shopifyLocation = await this.shopifyService.getLocation(shopifyLocationId);
+      locationId = await this.upsertLocation(
+        shopifyLocation || { id: shopifyLocationId, name: `Location ${shopifyLocationId}` }
+      );
+    }
+
+    const variant = await prisma.productVariant.findFirst({
+      where: { tenantId: this.tenantId, inventoryItemId },
+      select: { id: true },
+    });
+
+    const existing = await prisma.inventoryLevel.findUnique({
+      where: {
+        locationId_inventoryItemId: { locationId, inventoryItemId },
+      },
+    });
+
+    const data = {
+      variantId: variant?.id || null,
+      available: shopifyLevel.available ?? null,
+      shopifyUpdatedAt: shopifyLevel.updated_at ? new Date(shopifyLevel.updated_at) : null,
+    };
+
+    if (existing) {
+      await prisma.inventoryLevel.update({
+        where: { id: existing.id },
+        data,
+      });
+    } else {
+      await prisma.inventoryLevel.create({
+        data: {
+          ...data,
+          tenantId: this.tenantId,
+          locationId,
+          inventoryItemId,
+        },
+      });
+    }
+
+    // Only alert on a crossing, so a level that stays low doesn't alert on every update.
+    // A level seen for the first time at or below the threshold counts as crossing it.
+    if (data.available !== null) {
+      const threshold = await this.getLowStockThreshold();
+      const wasLow = existing?.available != null && existing.available <= threshold;
+      if (!wasLow && data.available <= threshold) {
+        await this.recordEvent('low_stock', undefined, undefined, {
+          variantId: data.variantId,
+          locationId,
+          inventoryItemId,
+          available: data.available,
+          threshold,
         });
-        created++;
       }
+    }
 
-      // Ingest order items
-      if (shopifyOrder.line_items && shopifyOrder.line_items.length > 0) {
-        // Delete existing order items
-        await prisma.orderItem.deleteMany({
-          where: { orderId: order.id },
-        });
+    return existing ? 'updated' : 'created';
+  }
 
-        // Create new order items
-        for (const item of shopifyOrder.line_items) {
-          let productId: string | null = null;
-          if (item.product_id) {
-            const product = await prisma.product.findUnique({
-              where: {
-                tenantId_shopifyId: {
-                  tenantId: this.tenantId,
-                  shopifyId: item.product_id.toString(),
-                },
-              },
-            });
-            productId = product?.id || null;
-          }
-
-          await prisma.orderItem.create({
-            data: {
-              orderId: order.id,
-              productId: productId,
-              shopifyProductId: item.product_id?.toString() || null,
-              title: item.title,
-              quantity: item.quantity,
-              price: parseFloat(item.price) || 0,
-              totalDiscount: item.total_discount ? parseFloat(item.total_discount) : null,
-              sku: item.sku || null,
-              variantTitle: item.variant_title || null,
-            },
-          });
-        }
-      }
+  // Copy shop-level settings onto the tenant, from a shop/update payload or fetched fresh
+  async updateShopSettings(shop?: ShopifyShop): Promise<void> {
+    const settings = shop || (await this.shopifyService.getShop());
+
+    await prisma.tenant.update({
+      where: { id: this.tenantId },
+      data: {
+        timezone: settings.iana_timezone || undefined,
+        currency: settings.currency || undefined,
+      },
+    });
+  }
+
+  // Re-fetch one order from Shopify and upsert it; null if Shopify no longer has it
+  async refreshOrder(shopifyOrderId: string): Promise<UpsertOutcome | null> {
+    const shopifyOrder = await this.shopifyService.getOrder(shopifyOrderId);
+    if (!shopifyOrder) {
+      return null;
     }
+    return this.upsertOrder(shopifyOrder);
+  }
 
-    return { created, updated };
+  // Soft-delete a customer removed in Shopify, keeping its order history
+  async markCustomerDeleted(shopifyCustomerId: string): Promise<number> {
+    const { count } = await prisma.customer.updateMany({
+      where: { tenantId: this.tenantId, shopifyId: shopifyCustomerId, deletedAt: null },
+      data: { deletedAt: new Date() },
+    });
+    return count;
+  }
+
+  // Soft-delete a product removed in Shopify, keeping its order items
+  async markProductDeleted(shopifyProductId: string): Promise<number> {
+    const { count } = await prisma.product.updateMany({
+      where: { tenantId: this.tenantId, shopifyId: shopifyProductId, deletedAt: null },
+      data: { deletedAt: new Date() },
+    });
+    return count;
   }
 
   // Ingest all data (customers, products, orders)
-  async ingestAll(): Promise<{
+  async ingestAll(options: SyncOptions = {}): Promise<{
     customers: { created: number; updated: number };
     products: { created: number; updated: number };
     orders: { created: number; updated: number };
+    inventory: { created: number; updated: number };
+    checkouts: { created: number; updated: number };
   }> {
-    const [customers, products, orders] = await Promise.all([
-      this.ingestCustomers(),
-      this.ingestProducts(),
-      this.ingestOrders(),
+    const [customers, products] = await Promise.all([
+      this.ingestCustomers(options),
+      this.ingestProducts(options),
     ]);
 
-    return { customers, products, orders };
+    // Orders link to customers, products and variants as they're upserted, so they go after both
+    const orders = await this.ingestOrders(options);
+
+    // Inventory levels link to variants by inventory item, so they go after products
+    const inventory = await this.ingestInventory(options);
+
+    // Checkouts link to customers, so they go after customers
+    const checkouts = await this.ingestCheckouts(options);
+
+    return { customers, products, orders, inventory, checkouts };
   }
 
-  // Record a custom event
+  // Record a custom event. The customer may be given by our id or by Shopify's; a
+  // Shopify id that isn't synced yet is kept and linked once the customer arrives.
   async recordEvent(
     eventType: string,
     customerId?: string,
     orderId?: string,
     metadata?: any
   ): Promise<void> {
+    let customer: { id: string } | null = null;
+    let shopifyCustomerId: string | null = null;
+
+    if (customerId) {
+      customer = await prisma.customer.findFirst({
+        where: { id: String(customerId), tenantId: this.tenantId },
+        select: { id: true },
+      });
+      if (!customer) {
+        shopifyCustomerId = String(customerId);
+        customer = await prisma.customer.findUnique({
+          where: { tenantId_shopifyId: { tenantId: this.tenantId, shopifyId: shopifyCustomerId } },
+          select: { id: true },
+        });
+      }
+    }
+
     await prisma.event.create({
       data: {
         tenantId: this.tenantId,
         eventType,
-        customerId: customerId || null,
+        customerId: customer?.id ?? null,
+        shopifyCustomerId,
         orderId: orderId || null,
         metadata: metadata ? JSON.stringify(metadata) : null,
       },
     });
   }
+
+  // Tenant's low-stock threshold, loaded once per service instance
+  private async getLowStockThreshold(): Promise<number> {
+    if (this.lowStockThreshold === undefined) {
+      const tenant = await prisma.tenant.findUnique({
+        where: { id: this.tenantId },
+        select: { lowStockThreshold: true },
+      });
+      this.lowStockThreshold = tenant?.lowStockThreshold ?? 5;
+    }
+    return this.lowStockThreshold;
+  }
+
+  // Get the updated_at high-water mark to resume from, unless a full resync was requested
+  private async getSyncCursor(resource: SyncResource, options: SyncOptions): Promise<Date | undefined> {
+    if (options.full) {
+      return undefined;
+    }
+
+    const state = await prisma.syncState.findUnique({
+      where: {
+        tenantId_resource: {
+          tenantId: this.tenantId,
+          resource,
+        },
+      },
+    });
+
+    return state?.lastUpdatedAt || undefined;
+  }
+
+  // Advance the cursor to the newest updated_at seen in a successful run.
+  // Shopify's updated_at_min is inclusive, so the boundary record is re-fetched
+  // next time; the upserts make that harmless.
+  private async saveSyncCursor(resource: SyncResource, lastUpdatedAt: Date | undefined): Promise<void> {
+    const now = new Date();
+    await prisma.syncState.upsert({
+      where: {
+        tenantId_resource: {
+          tenantId: this.tenantId,
+          resource,
+        },
+      },
+      create: {
+        tenantId: this.tenantId,
+        resource,
+        lastUpdatedAt: lastUpdatedAt || null,
+        lastSyncedAt: now,
+      },
+      update: {
+        // Keep the previous mark when nothing changed since the last run
+        ...(lastUpdatedAt && { lastUpdatedAt }),
+        lastSyncedAt: now,
+      },
+    });
+  }
 }
 
+// The customer-facing side of a Shopify money set, if the payload has one
+// Shopify doesn't deliver webhooks in order, and failed deliveries can be replayed later,
+// so a payload older than what's stored must not overwrite it
+function isStale(existing: { shopifyUpdatedAt: Date | null } | null, updatedAt?: string | null): boolean {
+  return !!existing?.shopifyUpdatedAt && !!updatedAt && new Date(updatedAt) < existing.shopifyUpdatedAt;
+}
+
+function presentmentAmount(set?: ShopifyMoneySet): number | null {
+  return set ? parseFloat(set.presentment_money.amount) || 0 : null;
+}
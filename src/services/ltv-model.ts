@@ -0,0 +1,253 @@
+// BG/NBD repeat-purchase model (Fader, Hardie & Lee 2005) and Gamma-Gamma spend
+// model (Fader & Hardie 2013), fitted by maximum likelihood. Time is in days.
+
+// One customer's purchase history, or several identical ones with a weight
+export interface PurchaseHistory {
+  frequency: number; // Repeat purchases: purchase days after the first
+  recency: number; // Days from first to last purchase
+  age: number; // Days from first purchase to now
+  weight?: number;
+}
+
+// One repeat customer's spend, for Gamma-Gamma
+export interface SpendHistory {
+  frequency: number;
+  monetary: number; // Average value of their repeat purchases
+}
+
+export interface BgNbdParams {
+  r: number;
+  alpha: number;
+  a: number;
+  b: number;
+}
+
+export interface GammaGammaParams {
+  p: number;
+  q: number;
+  v: number;
+}
+
+// Small L2 penalty on the log parameters, which keeps the fit finite on sparse data
+const PENALIZER = 0.001;
+
+const LANCZOS = [
+  0.99999999999980993, 676.5203681218851, -1259.1392167224028, 771.32342877765313, -176.61502916214059,
+  12.507343278686905, -0.13857109526572012, 9.9843695780195716e-6, 1.5056327351493116e-7,
+];
+
+// ln Γ(z), Lanczos approximation
+export function lnGamma(z: number): number {
+  if (z < 0.5) {
+    return Math.log(Math.PI / Math.abs(Math.sin(Math.PI * z))) - lnGamma(1 - z);
+  }
+  z -= 1;
+  let x = LANCZOS[0];
+  for (let i = 1; i < LANCZOS.length; i++) {
+    x += LANCZOS[i] / (z + i);
+  }
+  const t = z + 7.5;
+  return 0.5 * Math.log(2 * Math.PI) + (z + 0.5) * Math.log(t) - t + Math.log(x);
+}
+
+// Gauss hypergeometric 2F1(a, b; c; z) by its power series, for 0 <= z < 1
+function hyp2f1(a: number, b: number, c: number, z: number): number {
+  let term = 1;
+  let sum = 1;
+  for (let n = 0; n < 100000; n++) {
+    term *= ((a + n) * (b + n)) / ((c + n) * (n + 1)) * z;
+    sum += term;
+    if (Math.abs(term) < 1e-12 * Math.abs(sum)) {
+      break;
+    }
+  }
+  return sum;
+}
+
+function logAddExp(x: number, y: number): number {
+  if (x === -Infinity) return y;
+  if (y === -Infinity) return x;
+  const max = Math.max(x, y);
+  return max + Math.log(Math.exp(x - max) + Math.exp(y - max));
+}
+
+// Let other work on the event loop (requests, webhooks) run between chunks of a long fit
+export const yieldToEventLoop = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+// Iterations between yields; each evaluates the likelihood over every history a few times
+const ITERATIONS_PER_YIELD = 10;
+
+// Minimise f with the Nelder-Mead simplex method
+export async function nelderMead(
+  f: (x: number[]) => number,
+  start: number[],
+  options: { maxIterations?: number; tolerance?: number; step?: number } = {}
+): Promise<{ x: number[]; value: number }> {
+  const maxIterations = options.maxIterations ?? 2000;
+  const tolerance = options.tolerance ?? 1e-9;
+  const step = options.step ?? 0.5;
+  const n = start.length;
+
+  let simplex = [start, ...start.map((_, i) => start.map((v, j) => (i === j ? v + step : v)))].map((x) => ({
+    x,
+    value: f(x),
+  }));
+
+  const combine = (from: number[], to: number[], t: number) => from.map((v, i) => v + t * (to[i] - v));
+
+  for (let iteration = 0; iteration < maxIterations; iteration++) {
+    if (iteration % ITERATIONS_PER_YIELD === ITERATIONS_PER_YIELD - 1) {
+      await yieldToEventLoop();
+    }
+
+    simplex.sort((p, q) => p.value - q.value);
+    const best = simplex[0];
+    const worst = simplex[n];
+
+    if (Math.abs(worst.value - best.value) <= tolerance * (Math.abs(best.value) + tolerance)) {
+      break;
+    }
+
+    const centroid = start.map((_, i) => simplex.slice(0, n).reduce((sum, p) => sum + p.x[i], 0) / n);
+
+    const reflected = combine(centroid, worst.x, -1);
+    const reflectedValue = f(reflected);
+
+    if (reflectedValue < best.value) {
+      const expanded = combine(centroid, worst.x, -2);
+      const expandedValue = f(expanded);
+      simplex[n] =
+        expandedValue < reflectedValue ? { x: expanded, value: expandedValue } : { x: reflected, value: reflectedValue };
+    } else if (reflectedValue < simplex[n - 1].value) {
+      simplex[n] = { x: reflected, value: reflectedValue };
+    } else {
+      const contracted = combine(centroid, worst.x, 0.5);
+      const contractedValue = f(contracted);
+      if (contractedValue < worst.value) {
+        simplex[n] = { x: contracted, value: contractedValue };
+      } else {
+        // Shrink everything towards the best point
+        simplex = simplex.map((p, i) => {
+          if (i === 0) return p;
+          const x = combine(best.x, p.x, 0.5);
+          return { x, value: f(x) };
+        });
+      }
+    }
+  }
+
+  simplex.sort((p, q) => p.value - q.value);
+  return simplex[0];
+}
+
+// Minimise a negative mean log-likelihood over positive parameters, searching in log space
+async function fitPositive(negativeLogLikelihood: (params: number[]) => number, size: number): Promise<number[]> {
+  const objective = (logParams: number[]) => {
+    const value = negativeLogLikelihood(logParams.map(Math.exp));
+    const penalty = PENALIZER * logParams.reduce((sum, v) => sum + v * v, 0);
+    return Number.isFinite(value) ? value + penalty : Number.MAX_VALUE;
+  };
+
+  // Restart from the previous optimum: Nelder-Mead can stall on a flat ridge
+  let best = await nelderMead(objective, new Array(size).fill(0));
+  for (let restart = 0; restart < 3; restart++) {
+    const next = await nelderMead(objective, best.x, { step: 0.25 });
+    if (best.value - next.value < 1e-10) {
+      break;
+    }
+    best = next;
+  }
+
+  return best.x.map(Math.exp);
+}
+
+function bgNbdLogLikelihood({ r, alpha, a, b }: BgNbdParams, h: PurchaseHistory): number {
+  const { frequency: x, recency, age } = h;
+
+  const a1 = lnGamma(r + x) - lnGamma(r) + r * Math.log(alpha);
+  const a2 = lnGamma(a + b) + lnGamma(b + x) - lnGamma(b) - lnGamma(a + b + x);
+  const a3 = -(r + x) * Math.log(alpha + age);
+  const a4 = x > 0 ? Math.log(a) - Math.log(b + x - 1) - (r + x) * Math.log(alpha + recency) : -Infinity;
+
+  return a1 + a2 + logAddExp(a3, a4);
+}
+
+export async function fitBgNbd(histories: PurchaseHistory[]): Promise<BgNbdParams> {
+  const total = histories.reduce((sum, h) => sum + (h.weight ?? 1), 0);
+
+  const [r, alpha, a, b] = await fitPositive(([r, alpha, a, b]) => {
+    let ll = 0;
+    for (const h of histories) {
+      ll += (h.weight ?? 1) * bgNbdLogLikelihood({ r, alpha, a, b }, h);
+    }
+    return -ll / total;
+  }, 4);
+
+  return { r, alpha, a, b };
+}
+
+// Probability the customer hasn't churned (is still "alive"). BG/NBD only lets customers
+// drop out right after a repeat purchase, so for one-time buyers (frequency 0) this is
+// always 1 and says nothing about them; callers should treat it as not estimable.
+export function probabilityAlive({ r, alpha, a, b }: BgNbdParams, h: PurchaseHistory): number {
+  if (h.frequency === 0) {
+    return 1;
+  }
+  const logRatio =
+    Math.log(a) - Math.log(b + h.frequency - 1) + (r + h.frequency) * Math.log((alpha + h.age) / (alpha + h.recency));
+  return 1 / (1 + Math.exp(logRatio));
+}
+
+// Expected number of purchases in the next `days` days, given the history
+export function expectedPurchases(params: BgNbdParams, h: PurchaseHistory, days: number): number {
+  if (days <= 0) {
+    return 0;
+  }
+
+  const { r, alpha, b } = params;
+  // The expression is singular at a = 1
+  const a = Math.abs(params.a - 1) < 1e-6 ? 1 + 1e-6 : params.a;
+  const x = h.frequency;
+  const z = days / (alpha + h.age + days);
+
+  // ((α+T)/(α+T+t))^(r+x) · 2F1(r+x, b+x; a+b+x-1; z) through Euler's transformation,
+  // which keeps the series small for frequent buyers
+  const decay = Math.pow(1 - z, a - 1) * hyp2f1(a + b - 1 - r, a - 1, a + b + x - 1, z);
+
+  const expected = ((a + b + x - 1) / (a - 1)) * (1 - decay);
+  const alive =
+    x > 0 ? 1 + Math.exp(Math.log(a) - Math.log(b + x - 1) + (r + x) * Math.log((alpha + h.age) / (alpha + h.recency))) : 1;
+
+  return Math.max(0, expected / alive);
+}
+
+function gammaGammaLogLikelihood({ p, q, v }: GammaGammaParams, s: SpendHistory): number {
+  const { frequency: x, monetary: m } = s;
+  return (
+    lnGamma(p * x + q) -
+    lnGamma(p * x) -
+    lnGamma(q) +
+    q * Math.log(v) +
+    (p * x - 1) * Math.log(m) +
+    p * x * Math.log(x) -
+    (p * x + q) * Math.log(x * m + v)
+  );
+}
+
+export async function fitGammaGamma(spends: SpendHistory[]): Promise<GammaGammaParams> {
+  const [p, q, v] = await fitPositive(([p, q, v]) => {
+    let ll = 0;
+    for (const s of spends) {
+      ll += gammaGammaLogLikelihood({ p, q, v }, s);
+    }
+    return -ll / spends.length;
+  }, 3);
+
+  return { p, q, v };
+}
+
+// Expected average purchase value, shrinking the customer's own average towards the
+// population's in proportion to how little history they have
+export function expectedSpend({ p, q, v }: GammaGammaParams, s: SpendHistory): number {
+  return (p * (v + s.frequency * s.monetary)) / (p * s.frequency + q - 1);
+}
@@ -0,0 +1,317 @@
+import { LtvModel, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import {
+  BgNbdParams,
+  GammaGammaParams,
+  PurchaseHistory,
+  SpendHistory,
+  expectedPurchases,
+  expectedSpend,
+  fitBgNbd,
+  fitGammaGamma,
+  probabilityAlive,
+  yieldToEventLoop,
+} from './ltv-model';
+
+// Predicted LTV covers the next year, discounted monthly at 10% a year
+const HORIZON_DAYS = 365;
+const ANNUAL_DISCOUNT_RATE = 0.1;
+
+// Below these the fits are mostly noise
+const MIN_CUSTOMERS = 20;
+const MIN_REPEAT_CUSTOMERS = 10;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const UPDATE_BATCH_SIZE = 1000;
+
+// Distinct histories forecast between yields to the event loop
+const FORECASTS_PER_YIELD = 200;
+
+// Churn probability histogram: 10 buckets of 10 percentage points
+const CHURN_BUCKETS = 10;
+
+interface HistoryRow {
+  customerId: string;
+  frequency: number;
+  recency: number;
+  firstPurchasedAt: Date;
+  monetary: number | null; // Average repeat purchase value
+  averageValue: number; // Average purchase value, first purchase included
+}
+
+interface Prediction {
+  customerId: string;
+  predictedLtv: number;
+  expectedPurchases: number;
+  churnProbability: number | null; // Null for one-time buyers, whom BG/NBD can't assess
+}
+
+export class LtvService {
+  private tenantId: string;
+
+  constructor(tenantId: string) {
+    this.tenantId = tenantId;
+  }
+
+  // Fit BG/NBD (how often and for how long customers keep buying) and Gamma-Gamma
+  // (how much they spend) on the tenant's order history, then store each customer's
+  // predicted LTV and churn probability. Returns null when there is too little history.
+  async train(): Promise<LtvModel | null> {
+    const fittedAt = new Date();
+    const today = Date.UTC(fittedAt.getUTCFullYear(), fittedAt.getUTCMonth(), fittedAt.getUTCDate());
+
+    // A purchase is a day with at least one order, so same-day orders count once
+    const rows = await prisma.$queryRaw<HistoryRow[]>`
+      WITH days AS (
+        SELECT o."customerId",
+               date_trunc('day', o."shopifyCreatedAt") AS day,
+               SUM(o."totalPrice" - COALESCE(rf.refunded, 0)) AS value
+        FROM "orders" o
+        JOIN "customers" cu ON cu.id = o."customerId"
+        LEFT JOIN (
+          SELECT "orderId", SUM(amount) AS refunded
+          FROM "refunds"
+          WHERE "tenantId" = ${this.tenantId}
+          GROUP BY "orderId"
+        ) rf ON rf."orderId" = o.id
+        WHERE o."tenantId" = ${this.tenantId}
+          AND o."cancelledAt" IS NULL
+          AND o."shopifyCreatedAt" IS NOT NULL
+          AND cu."deletedAt" IS NULL
+        GROUP BY o."customerId", date_trunc('day', o."shopifyCreatedAt")
+      ),
+      ranked AS (
+        SELECT *, ROW_NUMBER() OVER (PARTITION BY "customerId" ORDER BY day) AS n
+        FROM days
+      )
+      SELECT "customerId",
+             (COUNT(*) - 1)::int AS frequency,
+             (EXTRACT(EPOCH FROM MAX(day) - MIN(day)) / 86400)::float8 AS recency,
+             MIN(day) AS "firstPurchasedAt",
+             (AVG(value) FILTER (WHERE n > 1))::float8 AS monetary,
+             AVG(value)::float8 AS "averageValue"
+      FROM ranked
+      GROUP BY "customerId"
+    `;
+
+    const histories = new Map<string, PurchaseHistory>();
+    const addHistory = (row: HistoryRow) => {
+      const age = Math.max(row.recency, Math.round((today - row.firstPurchasedAt.getTime()) / DAY_MS));
+      const key = `${row.frequency}:${Math.round(row.recency)}:${age}`;
+      const history = histories.get(key);
+      if (history) {
+        history.weight! += 1;
+      } else {
+        histories.set(key, { frequency: row.frequency, recency: Math.round(row.recency), age, weight: 1 });
+      }
+      return key;
+    };
+    const keys = rows.map(addHistory);
+
+    const spends: SpendHistory[] = rows
+      .filter((row) => row.frequency > 0 && row.monetary !== null && row.monetary > 0)
+      .map((row) => ({ frequency: row.frequency, monetary: row.monetary! }));
+
+    if (rows.length < MIN_CUSTOMERS || spends.length < MIN_REPEAT_CUSTOMERS) {
+      return null;
+    }
+
+    // Customers with identical histories share a likelihood term and a prediction
+    const bgNbd = await fitBgNbd(Array.from(histories.values()));
+    let gammaGamma: GammaGammaParams | null = await fitGammaGamma(spends);
+
+    // q <= 1 means the fitted spend distribution has no finite mean
+    if (gammaGamma.q <= 1) {
+      gammaGamma = null;
+    }
+
+    const forecasts = new Map<string, { discounted: number; purchases: number; churn: number | null }>();
+    for (const [key, history] of histories) {
+      if (forecasts.size % FORECASTS_PER_YIELD === FORECASTS_PER_YIELD - 1) {
+        await yieldToEventLoop();
+      }
+      forecasts.set(key, {
+        discounted: discountedPurchases(bgNbd, history),
+        purchases: expectedPurchases(bgNbd, history, HORIZON_DAYS),
+        churn: history.frequency > 0 ? 1 - probabilityAlive(bgNbd, history) : null,
+      });
+    }
+
+    const predictions: Prediction[] = rows.map((row, i) => {
+      const forecast = forecasts.get(keys[i])!;
+      // Without a spend model, fall back to the customer's own average order value
+      const spend = gammaGamma
+        ? expectedSpend(gammaGamma, { frequency: row.frequency, monetary: Math.max(0, row.monetary ?? 0) })
+        : row.averageValue;
+
+      return {
+        customerId: row.customerId,
+        predictedLtv: Math.max(0, spend * forecast.discounted),
+        expectedPurchases: forecast.purchases,
+        churnProbability: forecast.churn,
+      };
+    });
+
+    await this.storePredictions(predictions, fittedAt);
+
+    const model = {
+      ...bgNbd,
+      p: gammaGamma?.p ?? null,
+      q: gammaGamma?.q ?? null,
+      v: gammaGamma?.v ?? null,
+      customers: rows.length,
+      repeatCustomers: spends.length,
+      horizonDays: HORIZON_DAYS,
+      fittedAt,
+    };
+
+    return prisma.ltvModel.upsert({
+      where: { tenantId: this.tenantId },
+      create: { tenantId: this.tenantId, ...model },
+      update: model,
+    });
+  }
+
+  async getModel(): Promise<LtvModel | null> {
+    return prisma.ltvModel.findUnique({
+      where: { tenantId: this.tenantId },
+    });
+  }
+
+  // Summary statistics, percentiles and histograms of predicted LTV and churn probability
+  async distribution() {
+    const [summary] = await prisma.$queryRaw<
+      Array<{
+        customers: number;
+        totalPredictedLtv: number | null;
+        averagePredictedLtv: number | null;
+        averageChurnProbability: number | null;
+        churnNotEstimable: number;
+        ltvPercentiles: number[] | null;
+      }>
+    >`
+      SELECT COUNT(*)::int AS customers,
+             SUM("predictedLtv")::float8 AS "totalPredictedLtv",
+             AVG("predictedLtv")::float8 AS "averagePredictedLtv",
+             AVG("churnProbability") AS "averageChurnProbability",
+             (COUNT(*) - COUNT("churnProbability"))::int AS "churnNotEstimable",
+             percentile_cont(ARRAY[0.1, 0.25, 0.5, 0.75, 0.9, 0.99]) WITHIN GROUP (ORDER BY "predictedLtv") AS "ltvPercentiles"
+      FROM "customers"
+      WHERE "tenantId" = ${this.tenantId}
+        AND "deletedAt" IS NULL
+        AND "ltvScoredAt" IS NOT NULL
+    `;
+
+    const percentiles = summary.ltvPercentiles || [];
+    // Cap the LTV histogram at the 99th percentile so a few whales don't flatten it
+    const ltvCap = percentiles[5] || 0;
+    const ltvBucketWidth = ltvCap > 0 ? ltvCap / 10 : 1;
+
+    const [ltvRows, churnRows] = await Promise.all([
+      prisma.$queryRaw<Array<{ bucket: number; customers: number; predictedLtv: number }>>`
+        SELECT LEAST(FLOOR("predictedLtv" / ${ltvBucketWidth}), 10)::int AS bucket,
+               COUNT(*)::int AS customers,
+               SUM("predictedLtv")::float8 AS "predictedLtv"
+        FROM "customers"
+        WHERE "tenantId" = ${this.tenantId}
+          AND "deletedAt" IS NULL
+          AND "ltvScoredAt" IS NOT NULL
+        GROUP BY 1
+        ORDER BY 1
+      `,
+      prisma.$queryRaw<Array<{ bucket: number; customers: number }>>`
+        SELECT LEAST(FLOOR("churnProbability" * ${CHURN_BUCKETS}), ${CHURN_BUCKETS - 1})::int AS bucket,
+               COUNT(*)::int AS customers
+        FROM "customers"
+        WHERE "tenantId" = ${this.tenantId}
+          AND "deletedAt" IS NULL
+          AND "churnProbability" IS NOT NULL
+        GROUP BY 1
+        ORDER BY 1
+      `,
+    ]);
+
+    // The last LTV bucket is open-ended: everyone above the 99th percentile
+    const ltvHistogram = Array.from({ length: 11 }, (_, bucket) => {
+      const row = ltvRows.find((r) => r.bucket === bucket);
+      return {
+        min: bucket * ltvBucketWidth,
+        max: bucket < 10 ? (bucket + 1) * ltvBucketWidth : null,
+        customers: row?.customers || 0,
+        predictedLtv: row?.predictedLtv || 0,
+      };
+    });
+
+    const churnHistogram = Array.from({ length: CHURN_BUCKETS }, (_, bucket) => ({
+      min: bucket / CHURN_BUCKETS,
+      max: (bucket + 1) / CHURN_BUCKETS,
+      customers: churnRows.find((r) => r.bucket === bucket)?.customers || 0,
+    }));
+
+    return {
+      customers: summary.customers,
+      totalPredictedLtv: summary.totalPredictedLtv || 0,
+      averagePredictedLtv: summary.averagePredictedLtv || 0,
+      // Over repeat buyers only; one-time buyers have no churn estimate
+      averageChurnProbability: summary.averageChurnProbability ?? null,
+      churnNotEstimable: summary.churnNotEstimable,
+      ltvPercentiles: {
+        p10: percentiles[0] ?? null,
+        p25: percentiles[1] ?? null,
+        p50: percentiles[2] ?? null,
+        p75: percentiles[3] ?? null,
+        p90: percentiles[4] ?? null,
+        p99: percentiles[5] ?? null,
+      },
+      ltvHistogram,
+      churnHistogram,
+    };
+  }
+
+  // Write predictions in batches, then clear those of customers who were not scored this time
+  private async storePredictions(predictions: Prediction[], scoredAt: Date): Promise<void> {
+    for (let i = 0; i < predictions.length; i += UPDATE_BATCH_SIZE) {
+      const values = predictions
+        .slice(i, i + UPDATE_BATCH_SIZE)
+        .map(
+          (p) =>
+            Prisma.sql`(${p.customerId}, ${p.predictedLtv}::float8, ${p.expectedPurchases}::float8, ${p.churnProbability}::float8)`
+        );
+
+      await prisma.$executeRaw`
+        UPDATE "customers" c
+        SET "predictedLtv" = ROUND(v.ltv::numeric, 2),
+            "expectedPurchases" = v.purchases,
+            "churnProbability" = v.churn,
+            "ltvScoredAt" = ${scoredAt}
+        FROM (VALUES ${Prisma.join(values)}) AS v(id, ltv, purchases, churn)
+        WHERE c.id = v.id AND c."tenantId" = ${this.tenantId}
+      `;
+    }
+
+    await prisma.customer.updateMany({
+      where: { tenantId: this.tenantId, ltvScoredAt: { lt: scoredAt } },
+      data: {
+        predictedLtv: null,
+        expectedPurchases: null,
+        churnProbability: null,
+        ltvScoredAt: null,
+      },
+    });
+  }
+}
+
+// Expected purchases over the horizon, each month's discounted back to today
+function discountedPurchases(params: BgNbdParams, history: PurchaseHistory): number {
+  const monthlyRate = Math.pow(1 + ANNUAL_DISCOUNT_RATE, 1 / 12) - 1;
+  const months = Math.ceil(HORIZON_DAYS / 30);
+
+  let total = 0;
+  let previous = 0;
+  for (let month = 1; month <= months; month++) {
+    const cumulative = expectedPurchases(params, history, Math.min(month * 30, HORIZON_DAYS));
+    total += (cumulative - previous) / Math.pow(1 + monthlyRate, month);
+    previous = cumulative;
+  }
+  return total;
+}
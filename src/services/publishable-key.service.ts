@@ -0,0 +1,115 @@
+import crypto from 'crypto';
+import { PublishableKey } from '@prisma/client';
+import prisma from '../config/database';
+
+// Publishable keys start with this, so they're never mistaken for secret API keys
+export const PUBLISHABLE_KEY_PREFIX = 'xpk_';
+
+// lastUsedAt is only written when older than this, to keep busy keys off the write path
+const LAST_USED_RESOLUTION_MS = 60 * 1000;
+
+export interface PublishableKeySettings {
+  name?: string;
+  allowedOrigins?: string[];
+  rateLimitPerMinute?: number;
+}
+
+export class PublishableKeyService {
+  private tenantId: string;
+
+  constructor(tenantId: string) {
+    this.tenantId = tenantId;
+  }
+
+  // Create a key for a storefront
+  async create(name: string, allowedOrigins: string[], rateLimitPerMinute?: number): Promise<PublishableKey> {
+    return prisma.publishableKey.create({
+      data: {
+        tenantId: this.tenantId,
+        name,
+        key: `${PUBLISHABLE_KEY_PREFIX}${crypto.randomBytes(24).toString('base64url')}`,
+        allowedOrigins: JSON.stringify(allowedOrigins.map(normalizeOrigin)),
+        rateLimitPerMinute,
+      },
+    });
+  }
+
+  // List this tenant's keys, including revoked ones, newest first
+  async list(): Promise<PublishableKey[]> {
+    return prisma.publishableKey.findMany({
+      where: { tenantId: this.tenantId },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  // Change a key's name, origins or rate limit; null if it doesn't exist
+  async update(keyId: string, settings: PublishableKeySettings): Promise<PublishableKey | null> {
+    const existing = await prisma.publishableKey.findFirst({
+      where: { id: keyId, tenantId: this.tenantId },
+    });
+
+    if (!existing) {
+      return null;
+    }
+
+    return prisma.publishableKey.update({
+      where: { id: existing.id },
+      data: {
+        name: settings.name,
+        allowedOrigins: settings.allowedOrigins
+          ? JSON.stringify(settings.allowedOrigins.map(normalizeOrigin))
+          : undefined,
+        rateLimitPerMinute: settings.rateLimitPerMinute,
+      },
+    });
+  }
+
+  // Revoke a key; false if it doesn't exist or was already revoked
+  async revoke(keyId: string): Promise<boolean> {
+    const { count } = await prisma.publishableKey.updateMany({
+      where: { id: keyId, tenantId: this.tenantId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+    return count === 1;
+  }
+}
+
+// Look up an active publishable key and record that it was used
+export async function findPublishableKey(key: string): Promise<PublishableKey | null> {
+  if (!key.startsWith(PUBLISHABLE_KEY_PREFIX)) {
+    return null;
+  }
+
+  const publishableKey = await prisma.publishableKey.findUnique({ where: { key } });
+  if (!publishableKey || publishableKey.revokedAt) {
+    return null;
+  }
+
+  if (!publishableKey.lastUsedAt || Date.now() - publishableKey.lastUsedAt.getTime() > LAST_USED_RESOLUTION_MS) {
+    await prisma.publishableKey.update({
+      where: { id: publishableKey.id },
+      data: { lastUsedAt: new Date() },
+    });
+  }
+
+  return publishableKey;
+}
+
+// Whether a browser origin may post events with a key
+export function isOriginAllowed(publishableKey: PublishableKey, origin: string): boolean {
+  const allowed: string[] = JSON.parse(publishableKey.allowedOrigins);
+  return allowed.includes(normalizeOrigin(origin));
+}
+
+// Shape a key for API responses, expanding the stored origin list
+export function serializePublishableKey(publishableKey: PublishableKey) {
+  return {
+    ...publishableKey,
+    allowedOrigins: JSON.parse(publishableKey.allowedOrigins) as string[],
+  };
+}
+
+// Origins compare as scheme://host[:port], lower-cased, without a trailing slash
+function normalizeOrigin(origin: string): string {
+  return origin.trim().toLowerCase().replace(/\/+$/, '');
+}
@@ -0,0 +1,166 @@
+import { Prisma } from '@prisma/client';
+import prisma from '../config/database';
+
+// Segments on the classic RFM grid of recency against the average of the frequency
+// and monetary scores. Rules are checked in order; the first match wins.
+const RFM_RULES: Array<{ segment: string; recency: [number, number]; fm: [number, number] }> = [
+  { segment: 'Champions', recency: [4, 5], fm: [4, 5] },
+  { segment: 'Loyal customers', recency: [3, 3], fm: [4, 5] },
+  { segment: "Can't lose them", recency: [1, 1], fm: [4, 5] },
+  { segment: 'At risk', recency: [1, 2], fm: [3, 5] },
+  { segment: 'Potential loyalists', recency: [4, 5], fm: [2, 3] },
+  { segment: 'New customers', recency: [4, 5], fm: [1, 1] },
+  { segment: 'Need attention', recency: [3, 3], fm: [2, 3] },
+  { segment: 'About to sleep', recency: [3, 3], fm: [1, 1] },
+  { segment: 'Hibernating', recency: [2, 2], fm: [1, 2] },
+  { segment: 'Lost', recency: [1, 1], fm: [1, 2] },
+];
+
+export const RFM_SEGMENTS = RFM_RULES.map((rule) => rule.segment);
+
+// URL form of a segment name, e.g. "Can't lose them" -> "cant-lose-them"
+export function rfmSegmentSlug(segment: string): string {
+  return segment
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, '')
+    .trim()
+    .replace(/\s+/g, '-');
+}
+
+export function findRfmSegment(slug: string): string | undefined {
+  return RFM_SEGMENTS.find((segment) => rfmSegmentSlug(segment) === slug.toLowerCase());
+}
+
+export interface RfmSegmentSummary {
+  segment: string;
+  slug: string;
+  customers: number;
+  customerShare: number; // % of scored customers
+  revenue: number; // Net revenue from the segment's orders
+  revenueShare: number; // % of all scored customers' net revenue
+}
+
+interface SegmentRow {
+  segment: string;
+  customers: number;
+  revenue: Prisma.Decimal | null;
+}
+
+export class RfmService {
+  private tenantId: string;
+
+  constructor(tenantId: string) {
+    this.tenantId = tenantId;
+  }
+
+  // Score every customer with orders 1-5 on recency of their last order, number of
+  // orders and net spend, by percentile rank within the tenant (ties share the lower
+  // score), then assign their segment. Customers without orders are left unscored.
+  async recompute(): Promise<number> {
+    const scoredAt = new Date();
+
+    const segmentCase = Prisma.sql`CASE ${Prisma.join(
+      RFM_RULES.map(
+        (rule) => Prisma.sql`WHEN r BETWEEN ${rule.recency[0]} AND ${rule.recency[1]}
+          AND ROUND((f + m) / 2.0) BETWEEN ${rule.fm[0]} AND ${rule.fm[1]} THEN ${rule.segment}`
+      ),
+      ' '
+    )} END`;
+
+    const [scored] = await prisma.$transaction([
+      prisma.$executeRaw`
+        UPDATE "customers" c
+        SET "rfmRecency" = s.r,
+            "rfmFrequency" = s.f,
+            "rfmMonetary" = s.m,
+            "rfmSegment" = s.segment,
+            "rfmScoredAt" = ${scoredAt}
+        FROM (
+          SELECT "customerId", r, f, m, ${segmentCase} AS segment
+          FROM (
+            SELECT "customerId",
+                   LEAST(5, FLOOR(PERCENT_RANK() OVER (ORDER BY "lastOrderedAt") * 5) + 1)::int AS r,
+                   LEAST(5, FLOOR(PERCENT_RANK() OVER (ORDER BY orders) * 5) + 1)::int AS f,
+                   LEAST(5, FLOOR(PERCENT_RANK() OVER (ORDER BY spend) * 5) + 1)::int AS m
+            FROM (
+              SELECT o."customerId",
+                     MAX(o."shopifyCreatedAt") AS "lastOrderedAt",
+                     COUNT(*) AS orders,
+                     SUM(o."totalPrice" - COALESCE(rf.refunded, 0)) AS spend
+              FROM "orders" o
+              JOIN "customers" cu ON cu.id = o."customerId"
+              LEFT JOIN (
+                SELECT "orderId", SUM(amount) AS refunded
+                FROM "refunds"
+                WHERE "tenantId" = ${this.tenantId}
+                GROUP BY "orderId"
+              ) rf ON rf."orderId" = o.id
+              WHERE o."tenantId" = ${this.tenantId}
+                AND o."cancelledAt" IS NULL
+                AND o."shopifyCreatedAt" IS NOT NULL
+                AND cu."deletedAt" IS NULL
+              GROUP BY o."customerId"
+            ) stats
+          ) scores
+        ) s
+        WHERE c.id = s."customerId"
+      `,
+      // Customers who no longer qualify (orders cancelled, customer deleted) lose their old scores
+      prisma.customer.updateMany({
+        where: {
+          tenantId: this.tenantId,
+          rfmScoredAt: { lt: scoredAt },
+        },
+        data: {
+          rfmRecency: null,
+          rfmFrequency: null,
+          rfmMonetary: null,
+          rfmSegment: null,
+          rfmScoredAt: null,
+        },
+      }),
+    ]);
+
+    return scored;
+  }
+
+  // Customer count and net revenue per segment, with their shares of the scored total
+  async summary(): Promise<RfmSegmentSummary[]> {
+    const rows = await prisma.$queryRaw<SegmentRow[]>`
+      SELECT c."rfmSegment" AS segment,
+             COUNT(DISTINCT c.id)::int AS customers,
+             SUM(o."totalPrice" - COALESCE(rf.refunded, 0)) AS revenue
+      FROM "customers" c
+      LEFT JOIN "orders" o ON o."customerId" = c.id AND o."cancelledAt" IS NULL
+      LEFT JOIN (
+        SELECT "orderId", SUM(amount) AS refunded
+        FROM "refunds"
+        WHERE "tenantId" = ${this.tenantId}
+        GROUP BY "orderId"
+      ) rf ON rf."orderId" = o.id
+      WHERE c."tenantId" = ${this.tenantId}
+        AND c."rfmSegment" IS NOT NULL
+        AND c."deletedAt" IS NULL
+      GROUP BY c."rfmSegment"
+    `;
+
+    const totalCustomers = rows.reduce((sum, row) => sum + row.customers, 0);
+    const totalRevenue = rows.reduce((sum, row) => sum + Number(row.revenue || 0), 0);
+
+    // Report every segment, including empty ones, in grid order
+    return RFM_SEGMENTS.map((segment) => {
+      const row = rows.find((r) => r.segment === segment);
+      const customers = row?.customers || 0;
+      const revenue = Number(row?.revenue || 0);
+
+      return {
+        segment,
+        slug: rfmSegmentSlug(segment),
+        customers,
+        customerShare: totalCustomers > 0 ? (customers / totalCustomers) * 100 : 0,
+        revenue,
+        revenueShare: totalRevenue > 0 ? (revenue / totalRevenue) * 100 : 0,
+      };
+    });
+  }
+}
@@ -0,0 +1,256 @@
+import { CustomerSegment, Prisma } from '@prisma/client';
+import prisma from '../config/database';
+import { RFM_SEGMENTS } from './rfm.service';
+
+export const SEGMENT_FIELDS = [
+  'totalSpent', // value: amount, with an operator
+  'ordersCount', // value: count, with an operator
+  'orderedWithinDays', // value: days; placed an order in the last N days
+  'purchasedProduct', // value: product id (ours or Shopify's)
+  'tag', // value: Shopify customer tag
+  'event', // value: event type, optionally withinDays
+  'rfmSegment', // value: RFM segment name
+] as const;
+export type SegmentField = (typeof SEGMENT_FIELDS)[number];
+
+export const SEGMENT_OPERATORS = ['gt', 'gte', 'lt', 'lte', 'eq'] as const;
+export type SegmentOperator = (typeof SEGMENT_OPERATORS)[number];
+
+export interface SegmentCondition {
+  field: SegmentField;
+  operator?: SegmentOperator;
+  value: string | number;
+  withinDays?: number;
+  negate?: boolean; // Match customers the condition is false for
+}
+
+export interface SegmentFilters {
+  match: 'all' | 'any';
+  conditions: SegmentCondition[];
+}
+
+export interface SegmentDefinition {
+  name: string;
+  description?: string | null;
+  filters: SegmentFilters;
+}
+
+const NUMERIC_FIELDS: SegmentField[] = ['totalSpent', 'ordersCount'];
+const MAX_CONDITIONS = 20;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Check a filter definition from a request body, returning the first problem found
+export function validateSegmentFilters(filters: any): string | null {
+  if (!filters || typeof filters !== 'object') {
+    return 'filters must be an object';
+  }
+  if (!['all', 'any'].includes(filters.match)) {
+    return 'filters.match must be "all" or "any"';
+  }
+  if (!Array.isArray(filters.conditions) || filters.conditions.length === 0) {
+    return 'filters.conditions must be a non-empty array';
+  }
+  if (filters.conditions.length > MAX_CONDITIONS) {
+    return `A segment can have at most ${MAX_CONDITIONS} conditions`;
+  }
+
+  for (const [i, condition] of filters.conditions.entries()) {
+    const at = `filters.conditions[${i}]`;
+
+    if (!condition || !SEGMENT_FIELDS.includes(condition.field)) {
+      return `${at}.field must be one of: ${SEGMENT_FIELDS.join(', ')}`;
+    }
+    if (condition.negate !== undefined && typeof condition.negate !== 'boolean') {
+      return `${at}.negate must be a boolean`;
+    }
+    if (condition.withinDays !== undefined && condition.field !== 'event') {
+      return `${at}.withinDays only applies to event conditions`;
+    }
+    if (condition.withinDays !== undefined && !(Number.isInteger(condition.withinDays) && condition.withinDays > 0)) {
+      return `${at}.withinDays must be a positive integer`;
+    }
+
+    if (NUMERIC_FIELDS.includes(condition.field)) {
+      if (!SEGMENT_OPERATORS.includes(condition.operator)) {
+        return `${at}.operator must be one of: ${SEGMENT_OPERATORS.join(', ')}`;
+      }
+      if (typeof condition.value !== 'number' || !Number.isFinite(condition.value)) {
+        return `${at}.value must be a number`;
+      }
+    } else if (condition.field === 'orderedWithinDays') {
+      if (!Number.isInteger(condition.value) || condition.value <= 0) {
+        return `${at}.value must be a positive number of days`;
+      }
+    } else if (typeof condition.value !== 'string' || !condition.value.trim()) {
+      return `${at}.value must be a non-empty string`;
+    } else if (condition.field === 'rfmSegment' && !RFM_SEGMENTS.includes(condition.value)) {
+      return `${at}.value must be one of: ${RFM_SEGMENTS.join(', ')}`;
+    }
+  }
+
+  return null;
+}
+
+export class SegmentService {
+  private tenantId: string;
+
+  constructor(tenantId: string) {
+    this.tenantId = tenantId;
+  }
+
+  async list(): Promise<CustomerSegment[]> {
+    return prisma.customerSegment.findMany({
+      where: { tenantId: this.tenantId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async get(segmentId: string): Promise<CustomerSegment | null> {
+    return prisma.customerSegment.findFirst({
+      where: { id: segmentId, tenantId: this.tenantId },
+    });
+  }
+
+  async create(definition: SegmentDefinition): Promise<CustomerSegment> {
+    return prisma.customerSegment.create({
+      data: {
+        tenantId: this.tenantId,
+        name: definition.name,
+        description: definition.description || null,
+        filters: JSON.stringify(definition.filters),
+      },
+    });
+  }
+
+  // Update a segment; null if it doesn't exist
+  async update(segmentId: string, definition: Partial<SegmentDefinition>): Promise<CustomerSegment | null> {
+    const existing = await this.get(segmentId);
+    if (!existing) {
+      return null;
+    }
+
+    return prisma.customerSegment.update({
+      where: { id: existing.id },
+      data: {
+        name: definition.name,
+        description: definition.description,
+        filters: definition.filters ? JSON.stringify(definition.filters) : undefined,
+      },
+    });
+  }
+
+  // Delete a segment; false if it doesn't exist
+  async delete(segmentId: string): Promise<boolean> {
+    const { count } = await prisma.customerSegment.deleteMany({
+      where: { id: segmentId, tenantId: this.tenantId },
+    });
+    return count === 1;
+  }
+
+  // Translate a filter definition into a customer where clause. Membership is
+  // evaluated at query time, so it always reflects the latest synced data.
+  async where(filters: SegmentFilters): Promise<Prisma.CustomerWhereInput> {
+    const conditions = filters.conditions.map((condition) => this.conditionWhere(condition));
+
+    return {
+      tenantId: this.tenantId,
+      ...(filters.match === 'any' ? { OR: conditions } : { AND: conditions }),
+    };
+  }
+
+  // Live member count, leaving out soft-deleted customers
+  async count(filters: SegmentFilters): Promise<number> {
+    return prisma.customer.count({
+      where: { AND: [await this.where(filters), { deletedAt: null }] },
+    });
+  }
+
+  // A page of members, biggest spenders first
+  async members(filters: SegmentFilters, take: number, skip: number) {
+    const where = { AND: [await this.where(filters), { deletedAt: null }] };
+
+    const [customers, total] = await Promise.all([
+      prisma.customer.findMany({
+        where,
+        orderBy: [{ totalSpent: 'desc' }, { id: 'asc' }],
+        take,
+        skip,
+        select: {
+          id: true,
+          email: true,
+          firstName: true,
+          lastName: true,
+          totalSpent: true,
+          ordersCount: true,
+          tags: true,
+          rfmSegment: true,
+          shopifyCreatedAt: true,
+        },
+      }),
+      prisma.customer.count({ where }),
+    ]);
+
+    return { customers, total };
+  }
+
+  private conditionWhere(condition: SegmentCondition): Prisma.CustomerWhereInput {
+    const where = this.positiveWhere(condition);
+    return condition.negate ? { NOT: where } : where;
+  }
+
+  private positiveWhere(condition: SegmentCondition): Prisma.CustomerWhereInput {
+    const { field, value } = condition;
+    const comparison = { [condition.operator === 'eq' ? 'equals' : condition.operator!]: Number(value) };
+
+    switch (field) {
+      case 'totalSpent':
+        return { totalSpent: comparison };
+      case 'ordersCount':
+        return { ordersCount: comparison };
+      case 'orderedWithinDays':
+        return {
+          orders: {
+            some: {
+              cancelledAt: null,
+              shopifyCreatedAt: { gte: new Date(Date.now() - Number(value) * DAY_MS) },
+            },
+          },
+        };
+      case 'purchasedProduct':
+        return {
+          orders: {
+            some: {
+              cancelledAt: null,
+              items: { some: { OR: [{ productId: String(value) }, { shopifyProductId: String(value) }] } },
+            },
+          },
+        };
+      case 'tag':
+        return { tags: { has: String(value) } };
+      case 'rfmSegment':
+        return { rfmSegment: String(value) };
+      case 'event':
+        // An EXISTS subquery on the customer's events
+        return {
+          events: {
+            some: {
+              eventType: String(value),
+              ...(condition.withinDays && {
+                createdAt: { gte: new Date(Date.now() - condition.withinDays * DAY_MS) },
+              }),
+            },
+          },
+        };
+    }
+  }
+}
+
+// Shape a segment for API responses, expanding the stored filters
+export function serializeSegment(segment: CustomerSegment, memberCount?: number) {
+  return {
+    ...segment,
+    filters: JSON.parse(segment.filters) as SegmentFilters,
+    ...(memberCount !== undefined && { memberCount }),
+  };
+}
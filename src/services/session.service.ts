@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import prisma from '../config/database';
+import { getJwtConfig } from '../config/auth';
+
+// Sessions pair a short-lived JWT access token with an opaque refresh token stored
+// (hashed) server-side. Each refresh rotates the refresh token; all tokens issued
+// from one login share a family, so presenting an already-rotated token revokes the
+// whole family: either the legitimate client or a thief is replaying it.
+
+export interface SessionUser {
+  id: string;
+  tenantId: string | null;
+  email: string;
+}
+
+export interface SessionTokens {
+  token: string;
+  refreshToken: string;
+  expiresIn: string | number;
+}
+
+export class RefreshTokenError extends Error {
+  reused: boolean;
+
+  constructor(message: string, reused = false) {
+    super(message);
+    this.name = 'RefreshTokenError';
+    this.reused = reused;
+  }
+}
+
+const hashToken = (token: string) => crypto.createHash('sha256').update(token).digest('hex');
+
+// Sign a short-lived access token for a user
+export function signAccessToken(user: SessionUser): string {
+  const { secret, accessTokenExpiresIn } = getJwtConfig();
+  return jwt.sign({ userId: user.id, tenantId: user.tenantId, email: user.email, type: 'access' }, secret, {
+    expiresIn: accessTokenExpiresIn,
+  });
+}
+
+// Start a session (or continue a refresh-token family) for a user
+export async function createSession(user: SessionUser, familyId: string = crypto.randomUUID()): Promise<SessionTokens> {
+  const { accessTokenExpiresIn, refreshTokenTtlMs } = getJwtConfig();
+  const refreshToken = crypto.randomBytes(48).toString('base64url');
+
+  await prisma.refreshToken.create({
+    data: {
+      userId: user.id,
+      familyId,
+      tokenHash: hashToken(refreshToken),
+      expiresAt: new Date(Date.now() + refreshTokenTtlMs),
+    },
+  });
+
+  return {
+    token: signAccessToken(user),
+    refreshToken,
+    expiresIn: accessTokenExpiresIn as string | number,
+  };
+}
+
+// Exchange a refresh token for a new access token and refresh token
+export async function refreshSession(refreshToken: string): Promise<SessionTokens> {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+    include: { user: true },
+  });
+
+  if (!stored) {
+    throw new RefreshTokenError('Invalid refresh token');
+  }
+
+  if (stored.revokedAt) {
+    await revokeFamily(stored.familyId);
+    throw new RefreshTokenError('Refresh token reuse detected; session revoked', true);
+  }
+
+  if (stored.expiresAt < new Date()) {
+    throw new RefreshTokenError('Refresh token expired');
+  }
+
+  // Two requests racing with the same token: only one may rotate it
+  const { count } = await prisma.refreshToken.updateMany({
+    where: { id: stored.id, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+
+  if (count === 0) {
+    await revokeFamily(stored.familyId);
+    throw new RefreshTokenError('Refresh token reuse detected; session revoked', true);
+  }
+
+  // Claims come from the current user row, so tenant changes since login apply
+  return createSession(stored.user, stored.familyId);
+}
+
+// End the session a refresh token belongs to
+export async function revokeSession(refreshToken: string): Promise<boolean> {
+  const stored = await prisma.refreshToken.findUnique({
+    where: { tokenHash: hashToken(refreshToken) },
+  });
+
+  if (!stored) {
+    return false;
+  }
+
+  await revokeFamily(stored.familyId);
+  return true;
+}
+
+// End every session of a user
+export async function revokeAllSessions(userId: string): Promise<number> {
+  const { count } = await prisma.refreshToken.updateMany({
+    where: { userId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+  return count;
+}
+
+async function revokeFamily(familyId: string): Promise<void> {
+  await prisma.refreshToken.updateMany({
+    where: { familyId, revokedAt: null },
+    data: { revokedAt: new Date() },
+  });
+}
@@ -0,0 +1,254 @@
+import axios, { AxiosError, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { getShopifyAdminUrl } from '../config/shopify';
+
+// Base class for errors from the Shopify Admin API
+export class ShopifyApiError extends Error {
+  status?: number;
+
+  constructor(message: string, status?: number) {
+    super(message);
+    this.name = 'ShopifyApiError';
+    this.status = status;
+  }
+}
+
+// 404: the record doesn't exist (or no longer does)
+export class ShopifyNotFoundError extends ShopifyApiError {
+  constructor(message: string) {
+    super(message, 404);
+    this.name = 'ShopifyNotFoundError';
+  }
+}
+
+// 401/403: the access token was revoked (app uninstalled) or lacks a scope
+export class ShopifyAuthError extends ShopifyApiError {
+  constructor(message: string, status: number) {
+    super(message, status);
+    this.name = 'ShopifyAuthError';
+  }
+}
+
+// Still throttled after every retry
+export class ShopifyRateLimitError extends ShopifyApiError {
+  retryAfterMs: number;
+
+  constructor(message: string, retryAfterMs: number) {
+    super(message, 429);
+    this.name = 'ShopifyRateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+export interface ShopifyClientOptions {
+  api?: 'rest' | 'graphql';
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+}
+
+interface RetryableConfig extends InternalAxiosRequestConfig {
+  retryCount?: number;
+}
+
+// Leave a couple of calls spare in the REST bucket for other clients of the shop
+const REST_BUCKET_HEADROOM = 2;
+
+// Standard shops leak 2 REST calls per second; Shopify Plus shops leak 20
+const REST_LEAK_PER_SECOND = 2;
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Client-side view of one shop's leaky bucket, shared by every client for that shop
+class ShopThrottle {
+  private used = 0;
+  private limit = 40;
+  private observedAt = Date.now();
+  private pausedUntil = 0;
+
+  // Wait until a call fits in the bucket, then reserve a slot for it
+  async acquire(): Promise<void> {
+    for (;;) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        await sleep(this.pausedUntil - now);
+        continue;
+      }
+
+      const used = Math.max(0, this.used - ((now - this.observedAt) / 1000) * REST_LEAK_PER_SECOND);
+      const capacity = this.limit - REST_BUCKET_HEADROOM;
+      if (used < capacity) {
+        this.used = used + 1;
+        this.observedAt = now;
+        return;
+      }
+
+      await sleep(((used - capacity + 1) / REST_LEAK_PER_SECOND) * 1000);
+    }
+  }
+
+  // Record the X-Shopify-Shop-Api-Call-Limit header, e.g. "32/40"
+  observe(callLimit: string | undefined): void {
+    const match = callLimit?.match(/^(\d+)\/(\d+)$/);
+    if (match) {
+      this.used = parseInt(match[1]);
+      this.limit = parseInt(match[2]);
+      this.observedAt = Date.now();
+    }
+  }
+
+  // Hold every call to the shop for a while (after a 429 or GraphQL THROTTLED)
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+  }
+}
+
+const throttles = new Map<string, ShopThrottle>();
+
+function throttleFor(key: string): ShopThrottle {
+  let throttle = throttles.get(key);
+  if (!throttle) {
+    throttle = new ShopThrottle();
+    throttles.set(key, throttle);
+  }
+  return throttle;
+}
+
+// Exponential backoff with full jitter
+function backoffDelay(attempt: number, baseDelayMs: number, maxDelayMs: number): number {
+  return Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+}
+
+// Retry-After is in seconds and may be fractional
+function retryAfterMs(response?: AxiosResponse): number | null {
+  const header = response?.headers?.['retry-after'];
+  const seconds = header !== undefined ? parseFloat(header) : NaN;
+  return Number.isFinite(seconds) ? seconds * 1000 : null;
+}
+
+// How long GraphQL needs to restore enough cost points for the throttled query
+function graphqlThrottleDelayMs(data: any): number {
+  const cost = data?.extensions?.cost;
+  const status = cost?.throttleStatus;
+  if (!status?.restoreRate) {
+    return 1000;
+  }
+  const missing = Math.max(0, (cost.requestedQueryCost || 0) - status.currentlyAvailable);
+  return Math.ceil((missing / status.restoreRate) * 1000) + 100;
+}
+
+function isGraphqlThrottled(data: any): boolean {
+  return Array.isArray(data?.errors) && data.errors.some((e: any) => e.extensions?.code === 'THROTTLED');
+}
+
+// Methods that are safe to repeat after an unknown outcome. GraphQL goes over POST, so
+// its queries and mutations alike are only retried when throttled.
+const IDEMPOTENT_METHODS = ['get', 'head', 'put', 'delete'];
+
+function idempotent(config?: InternalAxiosRequestConfig): boolean {
+  return IDEMPOTENT_METHODS.includes((config?.method || 'get').toLowerCase());
+}
+
+// Map a failed request to a typed error callers can branch on
+function toShopifyError(error: AxiosError, shopDomain: string): ShopifyApiError {
+  const status = error.response?.status;
+  const path = error.config?.url || '';
+
+  if (status === 404) {
+    return new ShopifyNotFoundError(`Shopify resource not found: ${path}`);
+  }
+  if (status === 401 || status === 403) {
+    return new ShopifyAuthError(
+      status === 401
+        ? `Shopify rejected the access token for ${shopDomain}; the app may have been uninstalled`
+        : `Shopify denied access to ${path} for ${shopDomain}; the app may be missing a scope`,
+      status
+    );
+  }
+  if (status === 429) {
+    return new ShopifyRateLimitError(
+      `Shopify rate limit exceeded for ${shopDomain}`,
+      retryAfterMs(error.response) ?? 2000
+    );
+  }
+  return new ShopifyApiError(`Shopify request ${path} failed: ${error.message}`, status);
+}
+
+// Axios client for a shop's Admin API that throttles itself against the shop's
+// rate limit and retries 429s with backoff, plus 5xxs and network errors on idempotent requests
+export function createShopifyClient(
+  shopDomain: string,
+  accessToken: string,
+  options: ShopifyClientOptions = {}
+): AxiosInstance {
+  const api = options.api || 'rest';
+  const maxRetries = options.maxRetries ?? 5;
+  const baseDelayMs = options.baseDelayMs ?? 500;
+  const maxDelayMs = options.maxDelayMs ?? 30000;
+  const throttle = throttleFor(`${shopDomain}:${api}`);
+
+  const client = axios.create({
+    baseURL: getShopifyAdminUrl(shopDomain),
+    headers: {
+      'X-Shopify-Access-Token': accessToken,
+      'Content-Type': 'application/json',
+    },
+  });
+
+  const retry = async (config: RetryableConfig, delayMs: number) => {
+    config.retryCount = (config.retryCount || 0) + 1;
+    await sleep(delayMs);
+    return client.request(config);
+  };
+
+  client.interceptors.request.use(async (config) => {
+    await throttle.acquire();
+    return config;
+  });
+
+  client.interceptors.response.use(
+    async (response) => {
+      throttle.observe(response.headers['x-shopify-shop-api-call-limit']);
+
+      // GraphQL reports throttling as a 200 with a THROTTLED error
+      if (api === 'graphql' && isGraphqlThrottled(response.data)) {
+        const config = response.config as RetryableConfig;
+        const delayMs = graphqlThrottleDelayMs(response.data);
+        throttle.pause(delayMs);
+
+        if ((config.retryCount || 0) >= maxRetries) {
+          throw new ShopifyRateLimitError(`Shopify GraphQL throttled for ${shopDomain}`, delayMs);
+        }
+        return retry(config, delayMs);
+      }
+
+      return response;
+    },
+    async (error: AxiosError) => {
+      const config = error.config as RetryableConfig | undefined;
+      const status = error.response?.status;
+      throttle.observe(error.response?.headers?.['x-shopify-shop-api-call-limit']);
+
+      // No response at all means a network error or timeout. Shopify may already have
+      // applied the request, so only repeat it if doing so twice is harmless; a 429
+      // guarantees nothing ran and is always retried.
+      const transient =
+        status === 429 ||
+        (idempotent(config) && (!error.response || (status !== undefined && status >= 500)));
+
+      if (config && transient && (config.retryCount || 0) < maxRetries) {
+        let delayMs = backoffDelay(config.retryCount || 0, baseDelayMs, maxDelayMs);
+
+        if (status === 429) {
+          delayMs = retryAfterMs(error.response) ?? Math.max(delayMs, 1000);
+          throttle.pause(delayMs);
+        }
+
+        return retry(config, delayMs);
+      }
+
+      throw toShopifyError(error, shopDomain);
+    }
+  );
+
+  return client;
+}
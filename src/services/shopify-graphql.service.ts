@@ -0,0 +1,415 @@
+import axios, { AxiosInstance } from 'axios';
+import readline from 'readline';
+import { Readable } from 'stream';
+import { createShopifyClient, ShopifyApiError } from './shopify-client';
+import {
+  ShopifyCustomer,
+  ShopifyMoneySet,
+  ShopifyOrder,
+  ShopifyProduct,
+  ShopifyRefund,
+  ShopifyVariant,
+} from './shopify.service';
+
+export interface BulkOperation {
+  id: string;
+  status: string; // CREATED, RUNNING, COMPLETED, CANCELING, CANCELED, FAILED, EXPIRED
+  errorCode?: string | null;
+  objectCount?: string;
+  url?: string | null;
+}
+
+export interface BulkPollOptions {
+  intervalMs?: number;
+  timeoutMs?: number;
+}
+
+// Bulk queries take no pagination arguments: Shopify walks every connection itself
+// and writes one JSONL line per node, children carrying a __parentId.
+const BULK_CUSTOMERS_QUERY = `{
+  customers {
+    edges {
+      node {
+        id
+        email
+        firstName
+        lastName
+        phone
+        amountSpent { amount }
+        numberOfOrders
+        tags
+        createdAt
+        updatedAt
+      }
+    }
+  }
+}`;
+
+const BULK_PRODUCTS_QUERY = `{
+  products {
+    edges {
+      node {
+        id
+        title
+        handle
+        vendor
+        productType
+        status
+        createdAt
+        updatedAt
+        variants {
+          edges {
+            node {
+              id
+              title
+              sku
+              price
+              compareAtPrice
+              inventoryQuantity
+              position
+              selectedOptions { value }
+              inventoryItem { id }
+              createdAt
+              updatedAt
+            }
+          }
+        }
+      }
+    }
+  }
+}`;
+
+// Refund line items are a connection under a list field, which bulk queries
+// can't reach; refunds come through with their totals only.
+const BULK_ORDERS_QUERY = `{
+  orders {
+    edges {
+      node {
+        id
+        name
+        email
+        displayFinancialStatus
+        displayFulfillmentStatus
+        currencyCode
+        presentmentCurrencyCode
+        cancelledAt
+        cancelReason
+        checkoutToken
+        createdAt
+        updatedAt
+        totalPriceSet { shopMoney { amount currencyCode } presentmentMoney { amount currencyCode } }
+        subtotalPriceSet { shopMoney { amount currencyCode } presentmentMoney { amount currencyCode } }
+        totalTaxSet { shopMoney { amount currencyCode } presentmentMoney { amount currencyCode } }
+        totalDiscountsSet { shopMoney { amount currencyCode } presentmentMoney { amount currencyCode } }
+        customer { id }
+        refunds {
+          id
+          note
+          createdAt
+          totalRefundedSet { shopMoney { amount } }
+        }
+        lineItems {
+          edges {
+            node {
+              id
+              title
+              quantity
+              sku
+              variantTitle
+              originalUnitPriceSet { shopMoney { amount } }
+              totalDiscountSet { shopMoney { amount } }
+              product { id }
+              variant { id }
+            }
+          }
+        }
+      }
+    }
+  }
+}`;
+
+const TERMINAL_STATUSES = ['COMPLETED', 'CANCELED', 'FAILED', 'EXPIRED'];
+
+export class ShopifyGraphQLService {
+  private client: AxiosInstance;
+  private bulkQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(shopDomain: string, accessToken: string) {
+    this.client = createShopifyClient(shopDomain, accessToken, { api: 'graphql' });
+  }
+
+  // Run a GraphQL query, throwing on top-level errors (throttling is retried by the client)
+  async query<T = any>(query: string, variables: Record<string, any> = {}): Promise<T> {
+    const response = await this.client.post('/graphql.json', { query, variables });
+
+    if (response.data.errors?.length) {
+      const messages = response.data.errors.map((e: any) => e.message).join('; ');
+      throw new ShopifyApiError(`Shopify GraphQL error: ${messages}`);
+    }
+
+    return response.data.data;
+  }
+
+  // Start a bulk query and return the new operation's id
+  async runBulkQuery(bulkQuery: string): Promise<string> {
+    const data = await this.query(
+      `mutation RunBulkQuery($query: String!) {
+        bulkOperationRunQuery(query: $query) {
+          bulkOperation { id status }
+          userErrors { field message }
+        }
+      }`,
+      { query: bulkQuery }
+    );
+
+    const { bulkOperation, userErrors } = data.bulkOperationRunQuery;
+    if (userErrors?.length) {
+      throw new Error(`Bulk operation rejected: ${userErrors.map((e: any) => e.message).join('; ')}`);
+    }
+
+    return bulkOperation.id;
+  }
+
+  // Poll a bulk operation until it reaches a terminal status
+  async pollBulkOperation(operationId: string, options: BulkPollOptions = {}): Promise<BulkOperation> {
+    const intervalMs = options.intervalMs ?? 5000;
+    const deadline = Date.now() + (options.timeoutMs ?? 4 * 60 * 60 * 1000);
+
+    for (;;) {
+      const data = await this.query(
+        `query BulkOperationStatus($id: ID!) {
+          node(id: $id) {
+            ... on BulkOperation { id status errorCode objectCount url }
+          }
+        }`,
+        { id: operationId }
+      );
+
+      const operation: BulkOperation = data.node;
+      if (!operation) {
+        throw new Error(`Bulk operation ${operationId} not found`);
+      }
+
+      if (TERMINAL_STATUSES.includes(operation.status)) {
+        if (operation.status !== 'COMPLETED') {
+          throw new Error(
+            `Bulk operation ${operationId} ${operation.status.toLowerCase()}` +
+              (operation.errorCode ? `: ${operation.errorCode}` : '')
+          );
+        }
+        return operation;
+      }
+
+      if (Date.now() > deadline) {
+        throw new Error(`Timed out waiting for bulk operation ${operationId}`);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, intervalMs));
+    }
+  }
+
+  // Stream-parse a bulk result file, yielding one object per JSONL line
+  async *readJsonl(url: string): AsyncGenerator<any> {
+    const response = await axios.get<Readable>(url, { responseType: 'stream' });
+    const lines = readline.createInterface({ input: response.data, crlfDelay: Infinity });
+
+    for await (const line of lines) {
+      if (line.trim()) {
+        yield JSON.parse(line);
+      }
+    }
+  }
+
+  // Fetch every customer through a bulk operation, in REST payload shape
+  async *bulkCustomers(options: BulkPollOptions = {}): AsyncGenerator<ShopifyCustomer> {
+    for await (const { node } of this.bulkNodes(BULK_CUSTOMERS_QUERY, options)) {
+      yield {
+        id: legacyId(node.id),
+        email: node.email || undefined,
+        first_name: node.firstName || undefined,
+        last_name: node.lastName || undefined,
+        phone: node.phone || undefined,
+        total_spent: node.amountSpent?.amount || '0',
+        orders_count: parseInt(node.numberOfOrders) || 0,
+        tags: (node.tags || []).join(', '),
+        created_at: node.createdAt,
+        updated_at: node.updatedAt,
+      };
+    }
+  }
+
+  // Fetch every product with its variants through a bulk operation, in REST payload shape
+  async *bulkProducts(options: BulkPollOptions = {}): AsyncGenerator<ShopifyProduct> {
+    for await (const { node, children } of this.bulkNodes(BULK_PRODUCTS_QUERY, options)) {
+      const variants: ShopifyVariant[] = children.map((variant) => ({
+        id: legacyId(variant.id),
+        product_id: legacyId(node.id),
+        title: variant.title,
+        sku: variant.sku,
+        option1: variant.selectedOptions?.[0]?.value ?? null,
+        option2: variant.selectedOptions?.[1]?.value ?? null,
+        option3: variant.selectedOptions?.[2]?.value ?? null,
+        position: variant.position,
+        price: variant.price,
+        compare_at_price: variant.compareAtPrice,
+        inventory_quantity: variant.inventoryQuantity ?? undefined,
+        inventory_item_id: variant.inventoryItem ? legacyId(variant.inventoryItem.id) : undefined,
+        created_at: variant.createdAt,
+        updated_at: variant.updatedAt,
+      }));
+
+      yield {
+        id: legacyId(node.id),
+        title: node.title,
+        handle: node.handle,
+        vendor: node.vendor,
+        product_type: node.productType,
+        status: node.status?.toLowerCase(),
+        variants,
+        created_at: node.createdAt,
+        updated_at: node.updatedAt,
+      };
+    }
+  }
+
+  // Fetch every order with its line items through a bulk operation, in REST payload shape
+  async *bulkOrders(options: BulkPollOptions = {}): AsyncGenerator<ShopifyOrder> {
+    for await (const { node, children } of this.bulkNodes(BULK_ORDERS_QUERY, options)) {
+      const refunds: ShopifyRefund[] = (node.refunds || []).map((refund: any) => ({
+        id: legacyId(refund.id),
+        order_id: legacyId(node.id),
+        note: refund.note,
+        created_at: refund.createdAt,
+        transactions: [
+          {
+            id: legacyId(refund.id),
+            kind: 'refund',
+            status: 'success',
+            amount: refund.totalRefundedSet?.shopMoney?.amount || '0',
+          },
+        ],
+      }));
+
+      yield {
+        id: legacyId(node.id),
+        order_number: parseInt(String(node.name).replace(/\D/g, '')) || undefined,
+        email: node.email || undefined,
+        financial_status: node.displayFinancialStatus?.toLowerCase(),
+        fulfillment_status: restFulfillmentStatus(node.displayFulfillmentStatus),
+        total_price: node.totalPriceSet?.shopMoney?.amount || '0',
+        subtotal_price: node.subtotalPriceSet?.shopMoney?.amount,
+        total_tax: node.totalTaxSet?.shopMoney?.amount,
+        total_discounts: node.totalDiscountsSet?.shopMoney?.amount,
+        currency: node.currencyCode,
+        presentment_currency: node.presentmentCurrencyCode,
+        total_price_set: restMoneySet(node.totalPriceSet),
+        subtotal_price_set: restMoneySet(node.subtotalPriceSet),
+        total_tax_set: restMoneySet(node.totalTaxSet),
+        total_discounts_set: restMoneySet(node.totalDiscountsSet),
+        cancelled_at: node.cancelledAt,
+        cancel_reason: node.cancelReason?.toLowerCase() || null,
+        checkout_token: node.checkoutToken || null,
+        customer: node.customer ? { id: legacyId(node.customer.id) } : undefined,
+        line_items: children.map((item) => ({
+          id: legacyId(item.id),
+          product_id: item.product ? legacyId(item.product.id) : undefined,
+          variant_id: item.variant ? legacyId(item.variant.id) : null,
+          title: item.title,
+          quantity: item.quantity,
+          price: item.originalUnitPriceSet?.shopMoney?.amount || '0',
+          total_discount: item.totalDiscountSet?.shopMoney?.amount,
+          sku: item.sku || undefined,
+          variant_title: item.variantTitle || undefined,
+        })),
+        refunds,
+        created_at: node.createdAt,
+        updated_at: node.updatedAt,
+      };
+    }
+  }
+
+  // Run a bulk query to completion and yield each top-level node with its child
+  // lines. Shopify writes a node's descendants after it and before the next top-level
+  // node, so a node is complete as soon as the next one arrives. Children are matched
+  // by __parentId; deeper descendants are attached to their parent line as __children.
+  // Lines whose parent isn't in the node being read would be lost, so they fail the
+  // run once the rest has been read.
+  private async *bulkNodes(
+    bulkQuery: string,
+    options: BulkPollOptions
+  ): AsyncGenerator<{ node: any; children: any[] }> {
+    const operation = await this.exclusive(async () => {
+      const operationId = await this.runBulkQuery(bulkQuery);
+      return this.pollBulkOperation(operationId, options);
+    });
+
+    // No url means the query matched nothing
+    if (!operation.url) {
+      return;
+    }
+
+    let current: { node: any; children: any[] } | null = null;
+    let childrenOf = new Map<string, any[]>();
+    let orphans = 0;
+
+    for await (const line of this.readJsonl(operation.url)) {
+      if (line.__parentId) {
+        const siblings = childrenOf.get(line.__parentId);
+        if (!siblings) {
+          orphans++;
+          continue;
+        }
+
+        siblings.push(line);
+        if (line.id) {
+          line.__children = [];
+          childrenOf.set(line.id, line.__children);
+        }
+        continue;
+      }
+
+      if (current) {
+        yield current;
+      }
+      current = { node: line, children: [] };
+      childrenOf = new Map([[line.id, current.children]]);
+    }
+
+    if (current) {
+      yield current;
+    }
+
+    if (orphans > 0) {
+      throw new Error(`Bulk operation ${operation.id} returned ${orphans} line(s) away from their parent node`);
+    }
+  }
+
+  // Shopify runs one bulk query per shop at a time, so queue ours behind each other.
+  // The lock covers start-and-poll only; downloading a finished result doesn't hold it.
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const run = this.bulkQueue.then(fn, fn);
+    this.bulkQueue = run.catch(() => undefined);
+    return run;
+  }
+}
+
+// "gid://shopify/Order/123" -> "123", matching the REST ids stored as shopifyId
+function legacyId(gid: string): string {
+  return gid.substring(gid.lastIndexOf('/') + 1).split('?')[0];
+}
+
+// REST reports unfulfilled orders as null and partial fulfilment as "partial"
+function restFulfillmentStatus(status?: string | null): string | undefined {
+  if (!status || status === 'UNFULFILLED') return undefined;
+  if (status === 'PARTIALLY_FULFILLED') return 'partial';
+  return status.toLowerCase();
+}
+
+// MoneyBag -> REST's { shop_money, presentment_money }
+function restMoneySet(bag: any): ShopifyMoneySet | undefined {
+  if (!bag?.shopMoney || !bag?.presentmentMoney) return undefined;
+  return {
+    shop_money: { amount: bag.shopMoney.amount, currency_code: bag.shopMoney.currencyCode },
+    presentment_money: { amount: bag.presentmentMoney.amount, currency_code: bag.presentmentMoney.currencyCode },
+  };
+}
@@ -0,0 +1,172 @@
+import axios from 'axios';
+import crypto from 'crypto';
+import { Tenant } from '@prisma/client';
+import prisma from '../config/database';
+import {
+  getShopifyApiSecrets,
+  getShopifyOAuthConfig,
+  getShopifyShopUrl,
+  SHOPIFY_WEBHOOK_TOPICS,
+} from '../config/shopify';
+import { encryptAccessToken } from './credential.service';
+import { ShopifyService } from './shopify.service';
+
+// How long a merchant has to approve the install before the state nonce expires
+const STATE_TTL_MS = 10 * 60 * 1000;
+
+const SHOP_DOMAIN_PATTERN = /^[a-z0-9][a-z0-9-]*\.myshopify\.com$/;
+
+export interface WebhookRegistration {
+  created: string[];
+  existing: string[];
+  failed: Array<{ topic: string; error: string }>;
+}
+
+export class ShopifyOAuthService {
+  // Lower-case a shop domain and check it is a *.myshopify.com host, so the
+  // redirect and token exchange can't be pointed anywhere else
+  normalizeShopDomain(shop: unknown): string | null {
+    if (typeof shop !== 'string') {
+      return null;
+    }
+    const domain = shop.trim().toLowerCase();
+    return SHOP_DOMAIN_PATTERN.test(domain) ? domain : null;
+  }
+
+  // Create a single-use state nonce for an install of the given shop
+  async createState(shopDomain: string): Promise<string> {
+    await prisma.oAuthState.deleteMany({ where: { expiresAt: { lt: new Date() } } });
+
+    const state = crypto.randomBytes(16).toString('hex');
+    await prisma.oAuthState.create({
+      data: {
+        state,
+        shopDomain,
+        expiresAt: new Date(Date.now() + STATE_TTL_MS),
+      },
+    });
+
+    return state;
+  }
+
+  // Consume a state nonce; false if it is unknown, expired, used or for another shop
+  async consumeState(shopDomain: string, state: string): Promise<boolean> {
+    const { count } = await prisma.oAuthState.deleteMany({
+      where: { state, shopDomain, expiresAt: { gt: new Date() } },
+    });
+    return count === 1;
+  }
+
+  // URL of the shop's permission screen
+  buildAuthorizeUrl(shopDomain: string, state: string): string {
+    const { apiKey, scopes, appUrl } = getShopifyOAuthConfig();
+    const params = new URLSearchParams({
+      client_id: apiKey || '',
+      scope: scopes,
+      redirect_uri: `${appUrl}/api/shopify/callback`,
+      state,
+    });
+    return `${getShopifyShopUrl(shopDomain)}/admin/oauth/authorize?${params.toString()}`;
+  }
+
+  // Check the hmac Shopify adds to install and callback URLs: an HMAC-SHA256 of
+  // every other query parameter, sorted and joined as key=value pairs with &
+  verifyQueryHmac(query: Record<string, any>): boolean {
+    const { hmac, signature, ...params } = query;
+    if (typeof hmac !== 'string') {
+      return false;
+    }
+
+    const message = Object.keys(params)
+      .sort()
+      .map((key) => `${key}=${Array.isArray(params[key]) ? params[key].join(',') : params[key]}`)
+      .join('&');
+    const received = Buffer.from(hmac, 'utf8');
+
+    return getShopifyApiSecrets().some((secret) => {
+      const expected = Buffer.from(crypto.createHmac('sha256', secret).update(message).digest('hex'), 'utf8');
+      return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+    });
+  }
+
+  // Trade an authorization code for an offline (non-expiring) access token
+  async exchangeCode(shopDomain: string, code: string): Promise<{ accessToken: string; scope: string }> {
+    const { apiKey, apiSecret } = getShopifyOAuthConfig();
+    const response = await axios.post(`${getShopifyShopUrl(shopDomain)}/admin/oauth/access_token`, {
+      client_id: apiKey,
+      client_secret: apiSecret,
+      code,
+    });
+
+    if (!response.data?.access_token) {
+      throw new Error('Shopify did not return an access token');
+    }
+
+    return { accessToken: response.data.access_token, scope: response.data.scope || '' };
+  }
+
+  // Finish an install: exchange the code, create or update the tenant and subscribe to webhooks
+  async completeInstall(
+    shopDomain: string,
+    code: string
+  ): Promise<{ tenant: Tenant; created: boolean; webhooks: WebhookRegistration }> {
+    const { accessToken, scope } = await this.exchangeCode(shopDomain, code);
+    const existing = await prisma.tenant.findUnique({ where: { shopDomain } });
+
+    let tenant: Tenant;
+    if (existing) {
+      tenant = await prisma.tenant.update({
+        where: { id: existing.id },
+        data: { ...encryptAccessToken(accessToken), scope },
+      });
+    } else {
+      const shop = await new ShopifyService(shopDomain, accessToken).getShop();
+      tenant = await prisma.tenant.create({
+        data: {
+          shopDomain,
+          ...encryptAccessToken(accessToken),
+          scope,
+          name: shop.name,
+          email: shop.email,
+          timezone: shop.iana_timezone || undefined,
+          currency: shop.currency || null,
+        },
+      });
+    }
+
+    const webhooks = await this.registerWebhooks(shopDomain, accessToken);
+
+    return { tenant, created: !existing, webhooks };
+  }
+
+  // Subscribe to every topic we handle that isn't already pointed at this backend.
+  // A topic that fails is reported rather than failing the install; the scheduled
+  // sync still picks up its changes.
+  async registerWebhooks(shopDomain: string, accessToken: string): Promise<WebhookRegistration> {
+    const address = `${getShopifyOAuthConfig().appUrl}/api/webhooks/shopify`;
+    const shopifyService = new ShopifyService(shopDomain, accessToken);
+    const result: WebhookRegistration = { created: [], existing: [], failed: [] };
+
+    const subscribed = new Set(
+      (await shopifyService.getWebhooks())
+        .filter((webhook) => webhook.address === address)
+        .map((webhook) => webhook.topic)
+    );
+
+    for (const topic of SHOPIFY_WEBHOOK_TOPICS) {
+      if (subscribed.has(topic)) {
+        result.existing.push(topic);
+        continue;
+      }
+
+      try {
+        await shopifyService.createWebhook(topic, address);
+        result.created.push(topic);
+      } catch (error: any) {
+        result.failed.push({ topic, error: error.message });
+      }
+    }
+
+    return result;
+  }
+}
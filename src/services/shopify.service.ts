@@ -1,4 +1,5 @@
-import axios, { AxiosInstance } from 'axios';
+import { AxiosInstance } from 'axios';
+import { createShopifyClient, ShopifyNotFoundError } from './shopify-client';
 
 export interface ShopifyCustomer {
   id: string;
@@ -8,10 +9,28 @@ export interface ShopifyCustomer {
   phone?: string;
   total_spent: string;
   orders_count: number;
+  tags?: string; // Comma-separated
   created_at: string;
   updated_at: string;
 }
 
+export interface ShopifyVariant {
+  id: string;
+  product_id?: string;
+  title?: string;
+  sku?: string | null;
+  option1?: string | null;
+  option2?: string | null;
+  option3?: string | null;
+  position?: number;
+  price: string;
+  compare_at_price?: string | null;
+  inventory_quantity?: number;
+  inventory_item_id?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
 export interface ShopifyProduct {
   id: string;
   title: string;
@@ -19,15 +38,38 @@ export interface ShopifyProduct {
   vendor?: string;
   product_type?: string;
   status?: string;
-  variants: Array<{
-    price: string;
-    compare_at_price?: string;
-    inventory_quantity?: number;
-  }>;
+  variants: ShopifyVariant[];
   created_at: string;
   updated_at: string;
 }
 
+export interface ShopifyRefund {
+  id: string;
+  order_id: string;
+  note?: string | null;
+  created_at: string;
+  processed_at?: string | null;
+  refund_line_items?: Array<{
+    id: string;
+    line_item_id: string;
+    quantity: number;
+    subtotal: number | string;
+    total_tax?: number | string;
+  }>;
+  transactions?: Array<{
+    id: string;
+    kind: string; // "refund", "sale", etc.
+    status: string; // "success", "failure", etc.
+    amount: string;
+  }>;
+}
+
+// An amount in the shop's currency and in the currency the customer saw
+export interface ShopifyMoneySet {
+  shop_money: { amount: string; currency_code: string };
+  presentment_money: { amount: string; currency_code: string };
+}
+
 export interface ShopifyOrder {
   id: string;
   order_number?: number;
@@ -39,12 +81,21 @@ export interface ShopifyOrder {
   total_tax?: string;
   total_discounts?: string;
   currency?: string;
+  presentment_currency?: string;
+  total_price_set?: ShopifyMoneySet;
+  subtotal_price_set?: ShopifyMoneySet;
+  total_tax_set?: ShopifyMoneySet;
+  total_discounts_set?: ShopifyMoneySet;
+  cancelled_at?: string | null;
+  cancel_reason?: string | null;
+  checkout_token?: string | null;
   customer?: {
     id: string;
   };
   line_items: Array<{
     id: string;
     product_id?: string;
+    variant_id?: string | null;
     title: string;
     quantity: number;
     price: string;
@@ -52,10 +103,60 @@ export interface ShopifyOrder {
     sku?: string;
     variant_title?: string;
   }>;
+  refunds?: ShopifyRefund[];
   created_at: string;
   updated_at: string;
 }
 
+export interface ShopifyLocation {
+  id: string;
+  name: string;
+  active?: boolean;
+  city?: string | null;
+  country_code?: string | null;
+}
+
+export interface ShopifyInventoryLevel {
+  inventory_item_id: string;
+  location_id: string;
+  available: number | null;
+  updated_at: string;
+}
+
+export interface ShopifyCheckout {
+  id: string;
+  token: string;
+  cart_token?: string | null;
+  email?: string | null;
+  customer?: {
+    id: string;
+  } | null;
+  total_price: string;
+  subtotal_price?: string;
+  currency?: string;
+  abandoned_checkout_url?: string | null;
+  completed_at?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ShopifyShop {
+  id: string;
+  name: string;
+  email: string;
+  domain?: string;
+  myshopify_domain: string;
+  currency?: string;
+  iana_timezone?: string;
+}
+
+export interface ShopifyWebhook {
+  id: string;
+  topic: string;
+  address: string;
+  format?: string;
+}
+
 export class ShopifyService {
   private client: AxiosInstance;
   private shopDomain: string;
@@ -64,29 +165,36 @@ export class ShopifyService {
   constructor(shopDomain: string, accessToken: string) {
     this.shopDomain = shopDomain;
     this.accessToken = accessToken;
-    this.client = axios.create({
-      baseURL: `https://${shopDomain}/admin/api/2024-01`,
-      headers: {
-        'X-Shopify-Access-Token': accessToken,
-        'Content-Type': 'application/json',
-      },
-    });
+    this.client = createShopifyClient(shopDomain, accessToken);
   }
 
-  // Fetch all customers with pagination
-  async getCustomers(limit: number = 250): Promise<ShopifyCustomer[]> {
-    const allCustomers: ShopifyCustomer[] = [];
+  // Fetch a single record, returning null only if Shopify says it doesn't exist.
+  // Auth, rate-limit and server errors propagate so callers don't mistake them for a deletion.
+  private async fetchOne<T>(path: string, key: string): Promise<T | null> {
+    try {
+      const response = await this.client.get(path);
+      return response.data[key] || null;
+    } catch (error) {
+      if (error instanceof ShopifyNotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  // Fetch every page of a list endpoint, following page_info cursors.
+  // Filters are only sent with the first request: Shopify rejects any params
+  // other than limit alongside page_info, the cursor already carries them.
+  private async fetchAll<T>(path: string, key: string, filters: Record<string, any>, limit: number): Promise<T[]> {
+    const all: T[] = [];
     let pageInfo: string | null = null;
 
     do {
-      const params: any = { limit };
-      if (pageInfo) {
-        params.page_info = pageInfo;
-      }
+      const params: any = pageInfo ? { limit, page_info: pageInfo } : { limit, ...filters };
 
-      const response = await this.client.get('/customers.json', { params });
-      const customers = response.data.customers || [];
-      allCustomers.push(...customers);
+      const response = await this.client.get(path, { params });
+      const records = response.data[key] || [];
+      all.push(...records);
 
       // Check for pagination link
       const linkHeader = response.headers.link;
@@ -98,91 +206,104 @@ export class ShopifyService {
       }
     } while (pageInfo);
 
-    return allCustomers;
+    return all;
   }
 
-  // Fetch all products with pagination
-  async getProducts(limit: number = 250): Promise<ShopifyProduct[]> {
-    const allProducts: ShopifyProduct[] = [];
-    let pageInfo: string | null = null;
+  // Build the updated_at_min filter for incremental fetches
+  private updatedSince(updatedAtMin?: Date): Record<string, any> {
+    return updatedAtMin ? { updated_at_min: updatedAtMin.toISOString() } : {};
+  }
 
-    do {
-      const params: any = { limit };
-      if (pageInfo) {
-        params.page_info = pageInfo;
-      }
+  // Fetch all customers with pagination, optionally only those updated since a date
+  async getCustomers(limit: number = 250, updatedAtMin?: Date): Promise<ShopifyCustomer[]> {
+    return this.fetchAll<ShopifyCustomer>('/customers.json', 'customers', this.updatedSince(updatedAtMin), limit);
+  }
 
-      const response = await this.client.get('/products.json', { params });
-      const products = response.data.products || [];
-      allProducts.push(...products);
+  // Fetch all products with pagination, optionally only those updated since a date
+  async getProducts(limit: number = 250, updatedAtMin?: Date): Promise<ShopifyProduct[]> {
+    return this.fetchAll<ShopifyProduct>('/products.json', 'products', this.updatedSince(updatedAtMin), limit);
+  }
 
-      const linkHeader = response.headers.link;
-      if (linkHeader) {
-        const nextMatch = linkHeader.match(/<[^>]*page_info=([^&>]+)[^>]*>; rel="next"/);
-        pageInfo = nextMatch ? nextMatch[1] : null;
-      } else {
-        pageInfo = null;
-      }
-    } while (pageInfo);
+  // Fetch all orders with pagination, optionally only those updated since a date
+  async getOrders(limit: number = 250, status: string = 'any', updatedAtMin?: Date): Promise<ShopifyOrder[]> {
+    return this.fetchAll<ShopifyOrder>(
+      '/orders.json',
+      'orders',
+      { status, ...this.updatedSince(updatedAtMin) },
+      limit
+    );
+  }
 
-    return allProducts;
+  // Fetch abandoned checkouts with pagination, optionally only those updated since a date
+  async getCheckouts(limit: number = 250, updatedAtMin?: Date): Promise<ShopifyCheckout[]> {
+    return this.fetchAll<ShopifyCheckout>('/checkouts.json', 'checkouts', this.updatedSince(updatedAtMin), limit);
   }
 
-  // Fetch all orders with pagination
-  async getOrders(limit: number = 250, status: string = 'any'): Promise<ShopifyOrder[]> {
-    const allOrders: ShopifyOrder[] = [];
-    let pageInfo: string | null = null;
+  // Fetch all locations (Shopify returns them unpaginated)
+  async getLocations(): Promise<ShopifyLocation[]> {
+    const response = await this.client.get('/locations.json');
+    return response.data.locations || [];
+  }
 
-    do {
-      const params: any = { limit, status };
-      if (pageInfo) {
-        params.page_info = pageInfo;
-      }
+  // Fetch inventory levels at the given locations, optionally only those updated since a date.
+  // Shopify accepts at most 50 location ids per request.
+  async getInventoryLevels(
+    locationIds: string[],
+    limit: number = 250,
+    updatedAtMin?: Date
+  ): Promise<ShopifyInventoryLevel[]> {
+    const allLevels: ShopifyInventoryLevel[] = [];
 
-      const response = await this.client.get('/orders.json', { params });
-      const orders = response.data.orders || [];
-      allOrders.push(...orders);
+    for (let i = 0; i < locationIds.length; i += 50) {
+      const levels = await this.fetchAll<ShopifyInventoryLevel>(
+        '/inventory_levels.json',
+        'inventory_levels',
+        { location_ids: locationIds.slice(i, i + 50).join(','), ...this.updatedSince(updatedAtMin) },
+        limit
+      );
+      allLevels.push(...levels);
+    }
 
-      const linkHeader = response.headers.link;
-      if (linkHeader) {
-        const nextMatch = linkHeader.match(/<[^>]*page_info=([^&>]+)[^>]*>; rel="next"/);
-        pageInfo = nextMatch ? nextMatch[1] : null;
-      } else {
-        pageInfo = null;
-      }
-    } while (pageInfo);
+    return allLevels;
+  }
 
-    return allOrders;
+  // Fetch a single location by ID
+  async getLocation(locationId: string): Promise<ShopifyLocation | null> {
+    return this.fetchOne<ShopifyLocation>(`/locations/${locationId}.json`, 'location');
   }
 
   // Fetch a single customer by ID
   async getCustomer(customerId: string): Promise<ShopifyCustomer | null> {
-    try {
-      const response = await this.client.get(`/customers/${customerId}.json`);
-      return response.data.customer || null;
-    } catch (error) {
-      return null;
-    }
+    return this.fetchOne<ShopifyCustomer>(`/customers/${customerId}.json`, 'customer');
   }
 
   // Fetch a single product by ID
   async getProduct(productId: string): Promise<ShopifyProduct | null> {
-    try {
-      const response = await this.client.get(`/products/${productId}.json`);
-      return response.data.product || null;
-    } catch (error) {
-      return null;
-    }
+    return this.fetchOne<ShopifyProduct>(`/products/${productId}.json`, 'product');
   }
 
   // Fetch a single order by ID
   async getOrder(orderId: string): Promise<ShopifyOrder | null> {
-    try {
-      const response = await this.client.get(`/orders/${orderId}.json`);
-      return response.data.order || null;
-    } catch (error) {
-      return null;
-    }
+    return this.fetchOne<ShopifyOrder>(`/orders/${orderId}.json`, 'order');
+  }
+
+  // Fetch the shop's own settings (name, contact email, currency, timezone)
+  async getShop(): Promise<ShopifyShop> {
+    const response = await this.client.get('/shop.json');
+    return response.data.shop;
   }
-}
 
+  // Fetch the app's webhook subscriptions for this shop
+  async getWebhooks(): Promise<ShopifyWebhook[]> {
+    const response = await this.client.get('/webhooks.json', { params: { limit: 250 } });
+    return response.data.webhooks || [];
+  }
+
+  // Subscribe a URL to a webhook topic
+  async createWebhook(topic: string, address: string): Promise<ShopifyWebhook> {
+    const response = await this.client.post('/webhooks.json', {
+      webhook: { topic, address, format: 'json' },
+    });
+    return response.data.webhook;
+  }
+}
@@ -0,0 +1,193 @@
+import prisma from '../config/database';
+
+// Most events a single collection request may carry
+export const MAX_EVENTS_PER_BATCH = 100;
+
+// Client timestamps further off than this are replaced with the receive time
+const MAX_BACKDATE_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+const EVENT_TYPE_PATTERN = /^[a-zA-Z0-9_:.-]{1,100}$/;
+const ID_MAX_LENGTH = 128;
+
+// An event as posted by a storefront script
+export interface StorefrontEvent {
+  type: string;
+  anonymousId: string;
+  sessionId?: string;
+  customerId?: string; // Shopify customer id, when the visitor is logged in
+  email?: string;
+  orderId?: string;
+  properties?: Record<string, any>;
+  timestamp?: string;
+}
+
+export interface CollectResult {
+  accepted: number;
+  rejected: Array<{ index: number; error: string }>;
+}
+
+export class StorefrontEventService {
+  private tenantId: string;
+
+  constructor(tenantId: string) {
+    this.tenantId = tenantId;
+  }
+
+  // Store a batch of storefront events. Invalid events are rejected individually;
+  // "identify" events link the visitor's anonymous id to a customer first, so
+  // the rest of the batch is attributed to them.
+  async collect(events: unknown[]): Promise<CollectResult> {
+    const result: CollectResult = { accepted: 0, rejected: [] };
+    const valid: StorefrontEvent[] = [];
+
+    events.forEach((event, index) => {
+      const error = validateEvent(event);
+      if (error) {
+        result.rejected.push({ index, error });
+      } else {
+        valid.push(event as StorefrontEvent);
+      }
+    });
+
+    for (const event of valid) {
+      if (event.type === 'identify') {
+        await this.identify(event.anonymousId, event.customerId, event.email);
+      }
+    }
+
+    const identities = await prisma.visitorIdentity.findMany({
+      where: {
+        tenantId: this.tenantId,
+        anonymousId: { in: Array.from(new Set(valid.map((event) => event.anonymousId))) },
+        customerId: { not: null },
+      },
+      select: { anonymousId: true, customerId: true },
+    });
+    const customerByVisitor = new Map(identities.map((identity) => [identity.anonymousId, identity.customerId]));
+
+    const now = Date.now();
+    await prisma.event.createMany({
+      data: valid.map((event) => {
+        const timestamp = event.timestamp ? Date.parse(event.timestamp) : NaN;
+        const createdAt =
+          timestamp > now - MAX_BACKDATE_MS && timestamp < now + MAX_CLOCK_SKEW_MS ? new Date(timestamp) : new Date(now);
+
+        return {
+          tenantId: this.tenantId,
+          eventType: event.type,
+          customerId: customerByVisitor.get(event.anonymousId) || null,
+          orderId: event.orderId ? String(event.orderId) : null,
+          anonymousId: event.anonymousId,
+          sessionId: event.sessionId ? String(event.sessionId) : null,
+          source: 'storefront',
+          metadata: event.properties ? JSON.stringify(event.properties) : null,
+          createdAt,
+        };
+      }),
+    });
+
+    result.accepted = valid.length;
+    return result;
+  }
+
+  // Record who an anonymous visitor is. If the customer is already synced, link
+  // them now and attribute the visitor's earlier events; otherwise the link is
+  // made when the customer is ingested (see linkVisitors).
+  async identify(anonymousId: string, shopifyCustomerId?: string, email?: string): Promise<string | null> {
+    const customer = await prisma.customer.findFirst({
+      where: {
+        tenantId: this.tenantId,
+        OR: [
+          ...(shopifyCustomerId ? [{ shopifyId: String(shopifyCustomerId) }] : []),
+          ...(email ? [{ email }] : []),
+        ],
+      },
+      orderBy: { deletedAt: { sort: 'desc', nulls: 'first' } },
+      select: { id: true },
+    });
+
+    const identity = {
+      customerId: customer?.id || null,
+      shopifyCustomerId: shopifyCustomerId ? String(shopifyCustomerId) : null,
+      email: email || null,
+      identifiedAt: new Date(),
+    };
+
+    await prisma.visitorIdentity.upsert({
+      where: { tenantId_anonymousId: { tenantId: this.tenantId, anonymousId } },
+      create: { tenantId: this.tenantId, anonymousId, ...identity },
+      update: identity,
+    });
+
+    if (customer) {
+      await this.attributeEvents([anonymousId], customer.id);
+    }
+
+    return customer?.id || null;
+  }
+
+  // Link visitors who identified before this customer was synced
+  async linkVisitors(customer: { id: string; shopifyId: string; email: string | null }): Promise<number> {
+    const pending = await prisma.visitorIdentity.findMany({
+      where: {
+        tenantId: this.tenantId,
+        customerId: null,
+        OR: [{ shopifyCustomerId: customer.shopifyId }, ...(customer.email ? [{ email: customer.email }] : [])],
+      },
+      select: { id: true, anonymousId: true },
+    });
+
+    if (pending.length === 0) {
+      return 0;
+    }
+
+    await prisma.visitorIdentity.updateMany({
+      where: { id: { in: pending.map((identity) => identity.id) } },
+      data: { customerId: customer.id },
+    });
+    await this.attributeEvents(
+      pending.map((identity) => identity.anonymousId),
+      customer.id
+    );
+
+    return pending.length;
+  }
+
+  // Attribute a visitor's not-yet-attributed events to a customer
+  private async attributeEvents(anonymousIds: string[], customerId: string): Promise<void> {
+    await prisma.event.updateMany({
+      where: { tenantId: this.tenantId, anonymousId: { in: anonymousIds }, customerId: null },
+      data: { customerId },
+    });
+  }
+}
+
+// Describe what's wrong with a posted event, or null if it can be stored
+function validateEvent(event: any): string | null {
+  if (!event || typeof event !== 'object' || Array.isArray(event)) {
+    return 'Event must be an object';
+  }
+  if (typeof event.type !== 'string' || !EVENT_TYPE_PATTERN.test(event.type)) {
+    return 'type must be 1-100 letters, digits or _:.-';
+  }
+  if (typeof event.anonymousId !== 'string' || !event.anonymousId || event.anonymousId.length > ID_MAX_LENGTH) {
+    return `anonymousId is required (at most ${ID_MAX_LENGTH} characters)`;
+  }
+  for (const field of ['sessionId', 'customerId', 'email', 'orderId', 'timestamp']) {
+    const value = event[field];
+    if (value !== undefined && value !== null && !['string', 'number'].includes(typeof value)) {
+      return `${field} must be a string`;
+    }
+    if (value !== undefined && value !== null && String(value).length > 256) {
+      return `${field} is too long`;
+    }
+  }
+  if (event.properties !== undefined && (typeof event.properties !== 'object' || Array.isArray(event.properties))) {
+    return 'properties must be an object';
+  }
+  if (event.type === 'identify' && !event.customerId && !event.email) {
+    return 'identify events need a customerId or email';
+  }
+  return null;
+}
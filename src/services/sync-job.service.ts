@@ -0,0 +1,238 @@
+import { SyncJob } from '@prisma/client';
+import prisma from '../config/database';
+import { getAccessToken } from './credential.service';
+import { IngestionService, SyncOptions, SyncResource } from './ingestion.service';
+import { LtvService } from './ltv.service';
+import { RfmService } from './rfm.service';
+
+export type SyncJobResource = SyncResource | 'all';
+export type SyncJobTrigger = 'manual' | 'scheduled';
+export type SyncJobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+const ACTIVE_STATUSES: SyncJobStatus[] = ['queued', 'running'];
+
+// Syncs that can change customers' orders, after which RFM scores and LTV predictions are recomputed
+const SCORING_RESOURCES: SyncJobResource[] = ['customers', 'orders', 'all'];
+
+// A running job refreshes its heartbeat this often. Several instances may share the
+// database, so a job is only taken for dead once its heartbeat is STALE_AFTER_MS old.
+const HEARTBEAT_INTERVAL_MS = 30 * 1000;
+const STALE_AFTER_MS = 5 * HEARTBEAT_INTERVAL_MS;
+
+export class SyncJobService {
+  private tenantId: string;
+
+  constructor(tenantId: string) {
+    this.tenantId = tenantId;
+  }
+
+  // Create a queued job, unless the tenant already has one queued or running.
+  // Two overlapping runs would fetch the same records and race on the sync cursors.
+  async enqueue(
+    resource: SyncJobResource,
+    trigger: SyncJobTrigger,
+    options: SyncOptions = {}
+  ): Promise<{ job: SyncJob; created: boolean }> {
+    // Don't let a job whose process died block the tenant until the next restart
+    await failInterruptedSyncJobs(this.tenantId);
+
+    const active = await this.activeJob();
+    if (active) {
+      return { job: active, created: false };
+    }
+
+    try {
+      const job = await prisma.syncJob.create({
+        data: {
+          tenantId: this.tenantId,
+          resource,
+          trigger,
+          full: options.full || false,
+        },
+      });
+
+      return { job, created: true };
+    } catch (error: any) {
+      // A concurrent request won the race: the database allows one active job per tenant
+      if (error.code === 'P2002') {
+        const winner = await this.activeJob();
+        if (winner) {
+          return { job: winner, created: false };
+        }
+      }
+      throw error;
+    }
+  }
+
+  private async activeJob(): Promise<SyncJob | null> {
+    return prisma.syncJob.findFirst({
+      where: { tenantId: this.tenantId, status: { in: ACTIVE_STATUSES } },
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  // Enqueue a job and run it in the background, returning without waiting for it
+  async start(
+    resource: SyncJobResource,
+    trigger: SyncJobTrigger,
+    options: SyncOptions = {}
+  ): Promise<{ job: SyncJob; created: boolean }> {
+    const queued = await this.enqueue(resource, trigger, options);
+
+    if (queued.created) {
+      this.run(queued.job.id).catch((error) => {
+        console.error(`Sync job ${queued.job.id} crashed:`, error);
+      });
+    }
+
+    return queued;
+  }
+
+  // Run a queued job to completion, recording its counts or error
+  async run(jobId: string): Promise<SyncJob> {
+    const job = await prisma.syncJob.update({
+      where: { id: jobId },
+      data: { status: 'running', startedAt: new Date(), heartbeatAt: new Date() },
+    });
+
+    const heartbeat = setInterval(() => {
+      prisma.syncJob
+        .update({ where: { id: jobId }, data: { heartbeatAt: new Date() } })
+        .catch((error) => console.error(`Heartbeat for sync job ${jobId} failed:`, error));
+    }, HEARTBEAT_INTERVAL_MS);
+    heartbeat.unref();
+
+    try {
+      const tenant = await prisma.tenant.findUnique({
+        where: { id: this.tenantId },
+      });
+
+      if (!tenant) {
+        throw new Error('Tenant not found');
+      }
+
+      const ingestionService = new IngestionService(
+        tenant.id,
+        tenant.shopDomain,
+        await getAccessToken(tenant)
+      );
+
+      // Keep the shop's timezone current for analytics
+      await ingestionService.updateShopSettings();
+
+      const options: SyncOptions = { full: job.full };
+      let result: Partial<Record<SyncResource, { created: number; updated: number }>>;
+
+      switch (job.resource) {
+        case 'customers':
+          result = { customers: await ingestionService.ingestCustomers(options) };
+          break;
+        case 'products':
+          result = { products: await ingestionService.ingestProducts(options) };
+          break;
+        case 'orders':
+          result = { orders: await ingestionService.ingestOrders(options) };
+          break;
+        case 'inventory':
+          result = { inventory: await ingestionService.ingestInventory(options) };
+          break;
+        case 'checkouts':
+          result = { checkouts: await ingestionService.ingestCheckouts(options) };
+          break;
+        default:
+          result = await ingestionService.ingestAll(options);
+      }
+
+      // Stale scores are better than failing a sync whose data already landed
+      if (SCORING_RESOURCES.includes(job.resource as SyncJobResource)) {
+        await new RfmService(tenant.id).recompute().catch((error) => {
+          console.error(`RFM scoring after sync job ${jobId} failed:`, error);
+        });
+        await new LtvService(tenant.id).train().catch((error) => {
+          console.error(`LTV training after sync job ${jobId} failed:`, error);
+        });
+      }
+
+      return await prisma.syncJob.update({
+        where: { id: jobId },
+        data: {
+          status: 'completed',
+          result: JSON.stringify(result),
+          finishedAt: new Date(),
+        },
+      });
+    } catch (error: any) {
+      return await prisma.syncJob.update({
+        where: { id: jobId },
+        data: {
+          status: 'failed',
+          error: error.message || String(error),
+          finishedAt: new Date(),
+        },
+      });
+    } finally {
+      clearInterval(heartbeat);
+    }
+  }
+
+  // List this tenant's jobs, newest first
+  async list(
+    filters: { status?: string; resource?: string },
+    limit: number,
+    offset: number
+  ): Promise<{ jobs: SyncJob[]; total: number }> {
+    const where: any = { tenantId: this.tenantId };
+    if (filters.status) {
+      where.status = filters.status;
+    }
+    if (filters.resource) {
+      where.resource = filters.resource;
+    }
+
+    const [jobs, total] = await Promise.all([
+      prisma.syncJob.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        take: limit,
+        skip: offset,
+      }),
+      prisma.syncJob.count({ where }),
+    ]);
+
+    return { jobs, total };
+  }
+
+  // Get a single job, scoped to this tenant
+  async get(jobId: string): Promise<SyncJob | null> {
+    return prisma.syncJob.findFirst({
+      where: { id: jobId, tenantId: this.tenantId },
+    });
+  }
+}
+
+// Shape a job for API responses, expanding the stored JSON result
+export function serializeSyncJob(job: SyncJob) {
+  return {
+    ...job,
+    result: job.result ? JSON.parse(job.result) : null,
+  };
+}
+
+// Jobs left queued or running by a process that stopped will never finish; mark them failed.
+// Only stale heartbeats count, so jobs other instances are still running are left alone.
+export async function failInterruptedSyncJobs(tenantId?: string): Promise<number> {
+  const { count } = await prisma.syncJob.updateMany({
+    where: {
+      ...(tenantId && { tenantId }),
+      status: { in: ACTIVE_STATUSES },
+      heartbeatAt: { lt: new Date(Date.now() - STALE_AFTER_MS) },
+    },
+    data: {
+      status: 'failed',
+      error: 'Interrupted: the server running it stopped',
+      finishedAt: new Date(),
+    },
+  });
+
+  return count;
+}
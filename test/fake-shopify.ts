@@ -0,0 +1,135 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { SHOPIFY_API_VERSION } from '../src/config/shopify';
+
+export interface RecordedRequest {
+  method: string;
+  path: string; // Without the query string
+  query: URLSearchParams;
+  body: any;
+}
+
+export interface FakeReply {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: any; // Objects are sent as JSON, strings as they are
+}
+
+const ADMIN_PREFIX = `/admin/api/${SHOPIFY_API_VERSION}`;
+const BULK_OPERATION_ID = 'gid://shopify/BulkOperation/1';
+
+// A local stand-in for a shop's Admin API. Point the clients at it with
+// SHOPIFY_ADMIN_API_BASE_URL = fake.url. Each route answers with its replies in
+// turn, repeating the last one; unknown routes get a 404.
+export class FakeShopify {
+  url = '';
+  requests: RecordedRequest[] = [];
+  private replies = new Map<string, FakeReply[]>();
+  private graphqlReplies: Array<{ match: string; replies: FakeReply[] }> = [];
+  private server = http.createServer((req, res) => this.handle(req, res));
+
+  async start(): Promise<this> {
+    await new Promise<void>((resolve) => this.server.listen(0, '127.0.0.1', resolve));
+    this.url = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    return this;
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+
+  // Forget every route and recorded request
+  reset(): void {
+    this.requests = [];
+    this.replies.clear();
+    this.graphqlReplies = [];
+  }
+
+  // Answer a REST call, e.g. on('GET', '/orders.json', { body: { orders: [] } })
+  on(method: string, path: string, ...replies: FakeReply[]): this {
+    this.replies.set(`${method.toUpperCase()} ${ADMIN_PREFIX}${path}`, replies);
+    return this;
+  }
+
+  // Answer a call outside the versioned Admin API, e.g. onShop('POST', '/admin/oauth/access_token', ...)
+  onShop(method: string, path: string, ...replies: FakeReply[]): this {
+    this.replies.set(`${method.toUpperCase()} ${path}`, replies);
+    return this;
+  }
+
+  // Answer GraphQL calls whose query contains `match`
+  onGraphql(match: string, ...replies: FakeReply[]): this {
+    this.graphqlReplies.push({ match, replies });
+    return this;
+  }
+
+  // Complete every bulk query at once, with `lines` as the JSONL result file
+  bulkResult(lines: any[]): this {
+    const path = '/bulk-results/1.jsonl';
+    this.replies.set(`GET ${path}`, [{ body: lines.map((line) => JSON.stringify(line)).join('\n') + '\n' }]);
+
+    return this.onGraphql('bulkOperationRunQuery', {
+      body: {
+        data: {
+          bulkOperationRunQuery: { bulkOperation: { id: BULK_OPERATION_ID, status: 'CREATED' }, userErrors: [] },
+        },
+      },
+    }).onGraphql('BulkOperationStatus', {
+      body: {
+        data: {
+          node: { id: BULK_OPERATION_ID, status: 'COMPLETED', objectCount: String(lines.length), url: this.url + path },
+        },
+      },
+    });
+  }
+
+  // Requests made to a REST path, or to GraphQL with `match` in the query
+  requestsTo(method: string, path: string, match?: string): RecordedRequest[] {
+    return this.requests.filter(
+      (request) =>
+        request.method === method.toUpperCase() &&
+        (request.path === ADMIN_PREFIX + path || request.path === path) &&
+        (match === undefined || String(request.body?.query).includes(match))
+    );
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    const chunks: Buffer[] = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => {
+      const url = new URL(req.url || '/', this.url);
+      const raw = Buffer.concat(chunks).toString();
+      const request: RecordedRequest = {
+        method: req.method || 'GET',
+        path: url.pathname,
+        query: url.searchParams,
+        body: raw ? JSON.parse(raw) : undefined,
+      };
+      this.requests.push(request);
+
+      const reply = this.nextReply(request) || { status: 404, body: { errors: 'Not Found' } };
+      const body = typeof reply.body === 'string' ? reply.body : JSON.stringify(reply.body ?? {});
+
+      res.writeHead(reply.status || 200, {
+        'Content-Type': typeof reply.body === 'string' ? 'text/plain' : 'application/json',
+        ...reply.headers,
+      });
+      res.end(body);
+    });
+  }
+
+  private nextReply(request: RecordedRequest): FakeReply | undefined {
+    let replies: FakeReply[] | undefined;
+    if (request.method === 'POST' && request.path === `${ADMIN_PREFIX}/graphql.json`) {
+      replies = this.graphqlReplies.find((route) => String(request.body?.query).includes(route.match))?.replies;
+    } else {
+      replies = this.replies.get(`${request.method} ${request.path}`);
+    }
+
+    if (!replies || replies.length === 0) {
+      return undefined;
+    }
+    return replies.length > 1 ? replies.shift() : replies[0];
+  }
+}
@@ -0,0 +1,79 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { createShopifyClient, ShopifyApiError, ShopifyNotFoundError } from '../src/services/shopify-client';
+import { FakeShopify } from './fake-shopify';
+
+describe('createShopifyClient retries', () => {
+  const fake = new FakeShopify();
+  let shop = 0;
+
+  // A fresh shop per test, so throttle state doesn't carry over
+  const client = (api: 'rest' | 'graphql' = 'rest') =>
+    createShopifyClient(`retry-${++shop}.myshopify.com`, 'token', { api, baseDelayMs: 1, maxDelayMs: 5 });
+
+  before(async () => {
+    await fake.start();
+    process.env.SHOPIFY_ADMIN_API_BASE_URL = fake.url;
+  });
+
+  after(async () => {
+    delete process.env.SHOPIFY_ADMIN_API_BASE_URL;
+    await fake.stop();
+  });
+
+  beforeEach(() => fake.reset());
+
+  it('retries a GET after a 5xx', async () => {
+    fake.on('GET', '/orders.json', { status: 502 }, { body: { orders: [{ id: 1 }] } });
+
+    const response = await client().get('/orders.json');
+
+    assert.deepEqual(response.data, { orders: [{ id: 1 }] });
+    assert.equal(fake.requestsTo('GET', '/orders.json').length, 2);
+  });
+
+  it('does not retry a POST after a 5xx', async () => {
+    fake.on('POST', '/webhooks.json', { status: 500 }, { body: { webhook: { id: 1 } } });
+
+    await assert.rejects(client().post('/webhooks.json', { webhook: {} }), ShopifyApiError);
+    assert.equal(fake.requestsTo('POST', '/webhooks.json').length, 1);
+  });
+
+  it('retries a POST after a 429', async () => {
+    fake.on(
+      'POST',
+      '/webhooks.json',
+      { status: 429, headers: { 'Retry-After': '0.01' } },
+      { body: { webhook: { id: 1 } } }
+    );
+
+    const response = await client().post('/webhooks.json', { webhook: {} });
+
+    assert.deepEqual(response.data, { webhook: { id: 1 } });
+    assert.equal(fake.requestsTo('POST', '/webhooks.json').length, 2);
+  });
+
+  it('retries a throttled GraphQL query but not a GraphQL 5xx', async () => {
+    fake.onGraphql(
+      'shop',
+      { body: { errors: [{ message: 'Throttled', extensions: { code: 'THROTTLED' } }] } },
+      { body: { data: { shop: { name: 'Test' } } } }
+    );
+    const graphql = client('graphql');
+
+    const response = await graphql.post('/graphql.json', { query: '{ shop { name } }' });
+    assert.deepEqual(response.data, { data: { shop: { name: 'Test' } } });
+    assert.equal(fake.requestsTo('POST', '/graphql.json').length, 2);
+
+    fake.reset();
+    fake.onGraphql('shop', { status: 503 }, { body: { data: { shop: { name: 'Test' } } } });
+
+    await assert.rejects(graphql.post('/graphql.json', { query: '{ shop { name } }' }), ShopifyApiError);
+    assert.equal(fake.requestsTo('POST', '/graphql.json').length, 1);
+  });
+
+  it('maps a 404 to ShopifyNotFoundError without retrying', async () => {
+    await assert.rejects(client().get('/orders/404.json'), ShopifyNotFoundError);
+    assert.equal(fake.requestsTo('GET', '/orders/404.json').length, 1);
+  });
+});
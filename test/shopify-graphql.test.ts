@@ -0,0 +1,118 @@
+import assert from 'node:assert/strict';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import { ShopifyGraphQLService } from '../src/services/shopify-graphql.service';
+import { FakeShopify } from './fake-shopify';
+
+const order = (id: number, extra: Record<string, any> = {}) => ({
+  id: `gid://shopify/Order/${id}`,
+  name: `#${id}`,
+  createdAt: '2025-01-01T00:00:00Z',
+  updatedAt: '2025-01-02T00:00:00Z',
+  totalPriceSet: { shopMoney: { amount: '10.00', currencyCode: 'USD' } },
+  ...extra,
+});
+
+const lineItem = (id: number, orderId: number) => ({
+  id: `gid://shopify/LineItem/${id}`,
+  title: `Item ${id}`,
+  quantity: 1,
+  originalUnitPriceSet: { shopMoney: { amount: '5.00' } },
+  __parentId: `gid://shopify/Order/${orderId}`,
+});
+
+async function collect<T>(iterable: AsyncIterable<T>): Promise<T[]> {
+  const items: T[] = [];
+  for await (const item of iterable) {
+    items.push(item);
+  }
+  return items;
+}
+
+describe('ShopifyGraphQLService bulk queries', () => {
+  const fake = new FakeShopify();
+  let service: ShopifyGraphQLService;
+
+  before(async () => {
+    await fake.start();
+    process.env.SHOPIFY_ADMIN_API_BASE_URL = fake.url;
+    service = new ShopifyGraphQLService('bulk-test.myshopify.com', 'token');
+  });
+
+  after(async () => {
+    delete process.env.SHOPIFY_ADMIN_API_BASE_URL;
+    await fake.stop();
+  });
+
+  beforeEach(() => fake.reset());
+
+  it('groups line items under their order', async () => {
+    fake.bulkResult([order(1), lineItem(11, 1), lineItem(12, 1), order(2), lineItem(21, 2)]);
+
+    const orders = await collect(service.bulkOrders({ intervalMs: 1 }));
+
+    assert.deepEqual(
+      orders.map((o) => [o.id, o.line_items.map((item) => item.id)]),
+      [
+        ['1', ['11', '12']],
+        ['2', ['21']],
+      ]
+    );
+    assert.equal(fake.requestsTo('GET', '/bulk-results/1.jsonl').length, 1);
+  });
+
+  it('maps the checkout token', async () => {
+    fake.bulkResult([order(1, { checkoutToken: 'abc123' }), order(2)]);
+
+    const orders = await collect(service.bulkOrders({ intervalMs: 1 }));
+
+    assert.equal(orders[0].checkout_token, 'abc123');
+    assert.equal(orders[1].checkout_token, null);
+  });
+
+  it('keeps deeper descendants out of the top-level node children', async () => {
+    fake.bulkResult([
+      { id: 'gid://shopify/Product/1', title: 'Shirt' },
+      { id: 'gid://shopify/ProductVariant/1', title: 'Small', __parentId: 'gid://shopify/Product/1' },
+      { id: 'gid://shopify/Metafield/1', value: 'x', __parentId: 'gid://shopify/ProductVariant/1' },
+      { id: 'gid://shopify/ProductVariant/2', title: 'Large', __parentId: 'gid://shopify/Product/1' },
+    ]);
+
+    const products = await collect(service.bulkProducts({ intervalMs: 1 }));
+
+    assert.deepEqual(
+      products.map((product) => product.variants.map((variant) => variant.title)),
+      [['Small', 'Large']]
+    );
+  });
+
+  it('fails after reading everything when a line comes away from its parent', async () => {
+    fake.bulkResult([order(1), lineItem(11, 1), order(2), lineItem(12, 1), lineItem(21, 2)]);
+
+    const seen: string[] = [];
+    await assert.rejects(
+      async () => {
+        for await (const o of service.bulkOrders({ intervalMs: 1 })) {
+          seen.push(`${o.id}:${o.line_items.length}`);
+        }
+      },
+      /returned 1 line\(s\) away from their parent node/
+    );
+    assert.deepEqual(seen, ['1:1', '2:1']);
+  });
+
+  it('reports a failed bulk operation', async () => {
+    fake
+      .onGraphql('bulkOperationRunQuery', {
+        body: {
+          data: {
+            bulkOperationRunQuery: { bulkOperation: { id: 'gid://shopify/BulkOperation/9', status: 'CREATED' }, userErrors: [] },
+          },
+        },
+      })
+      .onGraphql('BulkOperationStatus', {
+        body: { data: { node: { id: 'gid://shopify/BulkOperation/9', status: 'FAILED', errorCode: 'TIMEOUT' } } },
+      });
+
+    await assert.rejects(collect(service.bulkOrders({ intervalMs: 1 })), /failed: TIMEOUT/);
+  });
+});
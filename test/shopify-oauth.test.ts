@@ -0,0 +1,134 @@
+import { needsDatabase } from './test-database';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { after, before, beforeEach, describe, it } from 'node:test';
+import prisma from '../src/config/database';
+import shopifyRoutes from '../src/routes/shopify.routes';
+import { FakeShopify } from './fake-shopify';
+
+const SECRET = 'test-shopify-api-secret';
+const SHOP = 'oauth-test.myshopify.com';
+
+// Sign query parameters the way Shopify does for install and callback URLs
+function signed(params: Record<string, string>, secret = SECRET): URLSearchParams {
+  const message = Object.keys(params)
+    .sort()
+    .map((key) => `${key}=${params[key]}`)
+    .join('&');
+  return new URLSearchParams({ ...params, hmac: crypto.createHmac('sha256', secret).update(message).digest('hex') });
+}
+
+describe('Shopify OAuth install and callback', () => {
+  const fake = new FakeShopify();
+  const saved = { ...process.env };
+  let server: http.Server;
+  let baseUrl: string;
+
+  const get = (path: string, params: URLSearchParams) =>
+    fetch(`${baseUrl}/api/shopify${path}?${params}`, { redirect: 'manual' });
+
+  before(async () => {
+    await fake.start();
+    Object.assign(process.env, {
+      SHOPIFY_ADMIN_API_BASE_URL: fake.url,
+      SHOPIFY_API_KEY: 'test-api-key',
+      SHOPIFY_API_SECRET: SECRET,
+      SHOPIFY_APP_URL: 'https://app.example.com',
+      JWT_SECRET: crypto.randomBytes(32).toString('hex'),
+      TOKEN_ENCRYPTION_KEYS: `test:${crypto.randomBytes(32).toString('base64')}`,
+    });
+    delete process.env.SHOPIFY_API_SECRET_PREVIOUS;
+    delete process.env.TOKEN_ENCRYPTION_KEY_ID;
+    delete process.env.FRONTEND_URL;
+
+    const app = express();
+    app.use('/api/shopify', shopifyRoutes);
+    server = app.listen(0, '127.0.0.1');
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    process.env = saved;
+    await new Promise((resolve) => server.close(resolve));
+    await fake.stop();
+  });
+
+  beforeEach(() => fake.reset());
+
+  it('rejects a shop domain outside myshopify.com', async () => {
+    const install = await get('/install', new URLSearchParams({ shop: 'evil.example.com' }));
+    assert.equal(install.status, 400);
+
+    const callback = await get('/callback', signed({ shop: 'evil.example.com', code: 'abc', state: 'x' }));
+    assert.equal(callback.status, 400);
+    assert.equal(fake.requests.length, 0);
+  });
+
+  it('rejects a bad HMAC', async () => {
+    const install = await get('/install', signed({ shop: SHOP, timestamp: '1' }, 'wrong-secret'));
+    assert.equal(install.status, 401);
+
+    const callback = await get('/callback', signed({ shop: SHOP, code: 'abc', state: 'x' }, 'wrong-secret'));
+    assert.equal(callback.status, 401);
+    assert.equal(fake.requests.length, 0);
+  });
+
+  describe('with a database', { skip: needsDatabase }, () => {
+    // Hooks of a skipped suite still run
+    after(async () => {
+      if (needsDatabase) return;
+      await prisma.tenant.deleteMany({ where: { shopDomain: SHOP } });
+      await prisma.oAuthState.deleteMany({ where: { shopDomain: SHOP } });
+      await prisma.$disconnect();
+    });
+
+    it('rejects an unknown state', async () => {
+      const callback = await get('/callback', signed({ shop: SHOP, code: 'abc', state: 'not-issued' }));
+
+      assert.equal(callback.status, 403);
+      assert.equal(fake.requests.length, 0);
+    });
+
+    it('exchanges the code for a token once, then rejects the used state', async () => {
+      const install = await get('/install', new URLSearchParams({ shop: SHOP }));
+      assert.equal(install.status, 302);
+
+      const authorize = new URL(install.headers.get('location')!);
+      assert.equal(authorize.origin + authorize.pathname, `${fake.url}/admin/oauth/authorize`);
+      assert.equal(authorize.searchParams.get('client_id'), 'test-api-key');
+      assert.equal(authorize.searchParams.get('redirect_uri'), 'https://app.example.com/api/shopify/callback');
+      const state = authorize.searchParams.get('state')!;
+
+      fake
+        .onShop('POST', '/admin/oauth/access_token', { body: { access_token: 'shpat_test', scope: 'read_orders' } })
+        .on('GET', '/shop.json', { body: { shop: { name: 'OAuth Test', email: 'owner@example.com', currency: 'USD' } } })
+        .on('GET', '/webhooks.json', { body: { webhooks: [] } })
+        .on('POST', '/webhooks.json', { body: { webhook: { id: 1 } } });
+
+      const params = signed({ shop: SHOP, code: 'auth-code', state, timestamp: String(Date.now()) });
+      const callback = await get('/callback', params);
+      const body = await callback.json();
+
+      assert.equal(callback.status, 201);
+      assert.equal(body.tenant.shopDomain, SHOP);
+      assert.equal(body.tenant.scope, 'read_orders');
+      assert.equal(body.webhooks.failed.length, 0);
+      assert.ok(body.installToken);
+
+      const [exchange] = fake.requestsTo('POST', '/admin/oauth/access_token');
+      assert.deepEqual(exchange.body, { client_id: 'test-api-key', client_secret: SECRET, code: 'auth-code' });
+
+      const tenant = await prisma.tenant.findUnique({ where: { shopDomain: SHOP } });
+      assert.equal(tenant?.name, 'OAuth Test');
+      assert.notEqual(tenant?.accessToken, 'shpat_test');
+
+      const replay = await get('/callback', params);
+      assert.equal(replay.status, 403);
+      assert.equal(fake.requestsTo('POST', '/admin/oauth/access_token').length, 1);
+    });
+  });
+});
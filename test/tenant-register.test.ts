@@ -0,0 +1,63 @@
+import { needsDatabase } from './test-database';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import express from 'express';
+import http from 'http';
+import jwt from 'jsonwebtoken';
+import { AddressInfo } from 'net';
+import { after, before, describe, it } from 'node:test';
+import prisma from '../src/config/database';
+import tenantRoutes from '../src/routes/tenant.routes';
+
+const SHOP = 'register-test.myshopify.com';
+
+describe('Registering with an install token', { skip: needsDatabase }, () => {
+  const saved = { ...process.env };
+  let server: http.Server;
+  let baseUrl: string;
+  let installToken: string;
+
+  const register = (email: string) =>
+    fetch(`${baseUrl}/api/tenant/register`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ installToken, name: 'Owner', email, password: 'correct horse' }),
+    });
+
+  // Hooks of a skipped suite still run
+  before(async () => {
+    if (needsDatabase) return;
+    process.env.JWT_SECRET = crypto.randomBytes(32).toString('hex');
+
+    const tenant = await prisma.tenant.create({
+      data: { shopDomain: SHOP, accessToken: 'unused', name: 'Register Test', email: 'owner@example.com' },
+    });
+    installToken = jwt.sign({ tenantId: tenant.id, purpose: 'install' }, process.env.JWT_SECRET, { expiresIn: '1h' });
+
+    const app = express();
+    app.use(express.json());
+    app.use('/api/tenant', tenantRoutes);
+    server = app.listen(0, '127.0.0.1');
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    if (needsDatabase) return;
+    process.env = saved;
+    await new Promise((resolve) => server.close(resolve));
+    await prisma.user.deleteMany({ where: { tenant: { shopDomain: SHOP } } });
+    await prisma.tenant.deleteMany({ where: { shopDomain: SHOP } });
+    await prisma.$disconnect();
+  });
+
+  it('creates one owner when the same token is used twice at once', async () => {
+    const responses = await Promise.all([
+      register(`first-${crypto.randomUUID()}@example.com`),
+      register(`second-${crypto.randomUUID()}@example.com`),
+    ]);
+
+    assert.deepEqual(responses.map((response) => response.status).sort(), [201, 400]);
+    assert.equal(await prisma.user.count({ where: { tenant: { shopDomain: SHOP } } }), 1);
+  });
+});
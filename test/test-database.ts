@@ -0,0 +1,13 @@
+// Tests that need Postgres run against TEST_DATABASE_URL: a disposable database with the
+// migrations applied (DATABASE_URL=$TEST_DATABASE_URL npx prisma migrate deploy). Each test
+// cleans up the tenants it creates. Without it those tests are skipped.
+//
+// Import this before anything that loads src/config/database.
+export const testDatabaseUrl = process.env.TEST_DATABASE_URL;
+
+if (testDatabaseUrl) {
+  process.env.DATABASE_URL = testDatabaseUrl;
+}
+
+// For node:test's `skip` option
+export const needsDatabase = testDatabaseUrl ? false : 'TEST_DATABASE_URL is not set';
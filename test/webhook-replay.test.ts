@@ -0,0 +1,108 @@
+import { needsDatabase } from './test-database';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import express from 'express';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { after, before, describe, it } from 'node:test';
+import prisma from '../src/config/database';
+import webhookRoutes from '../src/routes/webhook.routes';
+
+const SHOP = 'webhook-replay-test.myshopify.com';
+const SECRET = 'webhook-replay-secret';
+
+function order(updatedAt: string, totalPrice: string, financialStatus: string) {
+  return {
+    id: 9001,
+    order_number: 1001,
+    total_price: totalPrice,
+    currency: 'USD',
+    financial_status: financialStatus,
+    created_at: '2026-01-01T10:00:00Z',
+    updated_at: updatedAt,
+    line_items: [],
+  };
+}
+
+describe('Replaying an older webhook delivery', { skip: needsDatabase }, () => {
+  const saved = { ...process.env };
+  let server: http.Server;
+  let baseUrl: string;
+  let tenantId: string;
+
+  const deliver = (webhookId: string, payload: string) =>
+    fetch(`${baseUrl}/api/webhooks/shopify`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Shopify-Hmac-Sha256': crypto.createHmac('sha256', SECRET).update(payload).digest('base64'),
+        'X-Shopify-Shop-Domain': SHOP,
+        'X-Shopify-Topic': 'orders/updated',
+        'X-Shopify-Webhook-Id': webhookId,
+      },
+      body: payload,
+    });
+
+  // Hooks of a skipped suite still run
+  before(async () => {
+    if (needsDatabase) return;
+    delete process.env.TOKEN_ENCRYPTION_KEYS;
+    delete process.env.TOKEN_ENCRYPTION_KEY_ID;
+
+    const tenant = await prisma.tenant.create({
+      data: {
+        shopDomain: SHOP,
+        accessToken: 'unused',
+        name: 'Replay Test',
+        email: 'owner@example.com',
+        webhookSecret: SECRET,
+      },
+    });
+    tenantId = tenant.id;
+
+    const app = express();
+    app.use('/api/webhooks/shopify', express.raw({ type: 'application/json' }));
+    app.use('/api/webhooks', webhookRoutes);
+    server = app.listen(0, '127.0.0.1');
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    if (needsDatabase) return;
+    process.env = saved;
+    await new Promise((resolve) => server.close(resolve));
+    await prisma.tenant.deleteMany({ where: { shopDomain: SHOP } });
+    await prisma.$disconnect();
+  });
+
+  it('leaves the newer order in place when Shopify retries an older failed delivery', async () => {
+    // The older update failed when it first arrived
+    const older = JSON.stringify(order('2026-01-01T11:00:00Z', '100.00', 'pending'));
+    await prisma.webhookDelivery.create({
+      data: {
+        tenantId,
+        webhookId: 'replay-older',
+        topic: 'orders/updated',
+        shopDomain: SHOP,
+        payload: older,
+        status: 'failed',
+      },
+    });
+
+    const newer = await deliver('replay-newer', JSON.stringify(order('2026-01-01T12:00:00Z', '150.00', 'paid')));
+    assert.equal(newer.status, 200);
+
+    const retried = await deliver('replay-older', older);
+    assert.equal(retried.status, 200);
+
+    const stored = await prisma.order.findUnique({ where: { tenantId_shopifyId: { tenantId, shopifyId: '9001' } } });
+    assert.equal(Number(stored?.totalPrice), 150);
+    assert.equal(stored?.financialStatus, 'paid');
+    assert.equal(stored?.shopifyUpdatedAt?.toISOString(), '2026-01-01T12:00:00.000Z');
+
+    const delivery = await prisma.webhookDelivery.findUnique({ where: { webhookId: 'replay-older' } });
+    assert.equal(delivery?.status, 'processed');
+    assert.equal(delivery?.attempts, 1);
+  });
+});